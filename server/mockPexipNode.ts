@@ -0,0 +1,486 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: server/mockPexipNode.ts
+// Local stand-in for a Pexip Conferencing Node (Client REST API v2 subset):
+// request_token, refresh_token, release_token, dial, participants, disconnect,
+// participant commands and the `events` SSE stream.
+// Conferences are kept in memory; every dialed destination rings, answers,
+// rejects or drops according to the active scenario (server/mockScenarios.ts).
+//
+// Run: npm run dev:mock   (MOCK_SCENARIO=vtc-rejects-first, MOCK_PORT=8788)
+// Point the widget at it with VITE_PEXIP_NODE_URL=http://localhost:8788
+// ───────────────────────────────────────────────────────────────────────────────
+
+import http from "node:http";
+import { randomUUID } from "node:crypto";
+import { loadScenario, ruleMatches, type DestinationRule, type MockScenario } from "./mockScenarios";
+
+type MockParticipant = {
+  uuid: string;
+  display_name: string;
+  protocol: "api" | "sip" | "webrtc" | "h323" | "mssip" | "rtmp";
+  role: "chair" | "guest";
+  call_direction: "in" | "out";
+  is_connected: boolean;
+  has_video: boolean;
+  is_muted: "YES" | "NO";
+  is_video_muted: boolean;
+  spotlight: number;
+  uri: string;
+  local_alias: string;
+  start_time: number | null;
+};
+
+type StreamClient = { res: http.ServerResponse; token: string };
+
+type SentEvent = { id: number; event: string; data: unknown };
+
+// events kept per conference for Last-Event-ID resume
+const HISTORY_LIMIT = 500;
+
+type Conference = {
+  alias: string;
+  participants: Map<string, MockParticipant>;
+  tokens: Map<string, { participant: string; expiresAt: number }>;
+  streams: Set<StreamClient>;
+  timers: Set<NodeJS.Timeout>;
+  eventId: number;
+  history: SentEvent[];
+  layout: string;
+  // reject budget used per rule (rules are matched by identity); goes with the conference
+  rejectsUsed: Map<DestinationRule, number>;
+};
+
+const port = Number(process.env.MOCK_PORT) || 8788;
+const scenario: MockScenario = loadScenario();
+const tokenExpiresS = scenario.tokenExpiresS ?? 120;
+
+const conferences = new Map<string, Conference>();
+
+function log(alias: string, ...args: unknown[]) {
+  console.info(`[mock-pexip] [${alias}]`, ...args);
+}
+
+function conference(alias: string): Conference {
+  let conf = conferences.get(alias);
+  if (!conf) {
+    conf = {
+      alias,
+      participants: new Map(),
+      tokens: new Map(),
+      streams: new Set(),
+      timers: new Set(),
+      eventId: 0,
+      history: [],
+      layout: "1:7",
+      rejectsUsed: new Map(),
+    };
+    conferences.set(alias, conf);
+  }
+  return conf;
+}
+
+function later(conf: Conference, ms: number, fn: () => void) {
+  const t = setTimeout(() => {
+    conf.timers.delete(t);
+    fn();
+  }, ms);
+  conf.timers.add(t);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// SSE
+// ───────────────────────────────────────────────────────────────────────────────
+function writeEvent(client: StreamClient, id: number, event: string, data: unknown) {
+  client.res.write(`event: ${event}\nid: ${id}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function broadcast(conf: Conference, event: string, data: unknown) {
+  const id = ++conf.eventId;
+  conf.history.push({ id, event, data });
+  if (conf.history.length > HISTORY_LIMIT) conf.history.shift();
+  for (const client of conf.streams) writeEvent(client, id, event, data);
+}
+
+function upsert(conf: Conference, p: MockParticipant, created = false) {
+  conf.participants.set(p.uuid, p);
+  broadcast(conf, created ? "participant_create" : "participant_update", p);
+}
+
+function remove(conf: Conference, uuid: string, reason: string) {
+  const p = conf.participants.get(uuid);
+  if (!p) return;
+  conf.participants.delete(uuid);
+  log(conf.alias, `${p.display_name} left (${reason})`);
+  broadcast(conf, "participant_delete", { uuid, disconnect_reason: reason });
+  broadcastStage(conf);
+}
+
+/** Connected media participants in join order; the newest talker leads the stage. */
+function broadcastStage(conf: Conference) {
+  const onStage = Array.from(conf.participants.values())
+    .filter((p) => p.is_connected && p.protocol !== "api")
+    .reverse();
+  broadcast(
+    conf,
+    "stage",
+    onStage.map((p, i) => ({ participant_uuid: p.uuid, stage_index: i, vad: i === 0 ? 100 : 0 }))
+  );
+}
+
+function endConference(conf: Conference, reason: string) {
+  log(conf.alias, `conference ended (${reason})`);
+  conf.timers.forEach((t) => clearTimeout(t));
+  conf.timers.clear();
+  for (const uuid of Array.from(conf.participants.keys())) remove(conf, uuid, reason);
+  broadcast(conf, "disconnect", { reason });
+  conf.streams.forEach((c) => c.res.end());
+  conferences.delete(conf.alias);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Participants
+// ───────────────────────────────────────────────────────────────────────────────
+function newParticipant(
+  conf: Conference,
+  init: Partial<MockParticipant> & Pick<MockParticipant, "display_name" | "protocol">
+): MockParticipant {
+  return {
+    uuid: randomUUID(),
+    role: "guest",
+    call_direction: "out",
+    is_connected: false,
+    has_video: false,
+    is_muted: "NO",
+    is_video_muted: false,
+    spotlight: 0,
+    uri: "",
+    local_alias: conf.alias,
+    start_time: null,
+    ...init,
+  };
+}
+
+function connect(conf: Conference, uuid: string, video: boolean) {
+  const p = conf.participants.get(uuid);
+  if (!p) return;
+  upsert(conf, { ...p, is_connected: true, has_video: video, start_time: Math.floor(Date.now() / 1000) });
+  log(conf.alias, `${p.display_name} answered`);
+  broadcastStage(conf);
+}
+
+function spawnAgent(conf: Conference, rule: DestinationRule) {
+  const spec = rule.agentWebrtc;
+  if (!spec) return;
+  later(conf, spec.afterMs, () => {
+    const agent = newParticipant(conf, {
+      display_name: spec.displayName || "Agent (WebRTC)",
+      protocol: "webrtc",
+      role: "chair",
+      call_direction: "in",
+      is_connected: true,
+      has_video: true,
+      start_time: Math.floor(Date.now() / 1000),
+    });
+    upsert(conf, agent, true);
+    log(conf.alias, "agent WebRTC joined");
+    if (spec.leaveAfterMs !== undefined) {
+      later(conf, spec.leaveAfterMs, () => remove(conf, agent.uuid, "Agent hung up"));
+    }
+  });
+}
+
+type DialResult = { status: number; body: unknown };
+
+function dial(conf: Conference, payload: Record<string, unknown>): DialResult {
+  const destination = typeof payload.destination === "string" ? payload.destination : "";
+  if (!destination) return { status: 400, body: { status: "failed", result: "destination required" } };
+
+  const rule = scenario.rules.find((r) => ruleMatches(r, destination));
+  const label = rule?.name ?? "unmatched";
+  log(conf.alias, `dial ${destination} (${String(payload.protocol ?? "auto")}) -> rule ${label}`);
+
+  if (!rule) return { status: 200, body: { status: "success", result: [] } };
+
+  const used = conf.rejectsUsed.get(rule) ?? 0;
+  const rejectBudget = rule.reject === true ? Infinity : Number(rule.reject || 0);
+  const rejectNow = used < rejectBudget;
+  if (rejectNow) conf.rejectsUsed.set(rule, used + 1);
+
+  const mode = rule.rejectMode ?? "no_route";
+  if (rejectNow && mode === "no_route") {
+    log(conf.alias, `reject (${used + 1}/${rule.reject}): no route`);
+    return { status: 200, body: { status: "success", result: [] } };
+  }
+  if (rejectNow && mode === "failed") {
+    log(conf.alias, `reject (${used + 1}/${rule.reject}): failed`);
+    return { status: 200, body: { status: "failed", result: "Call rejected" } };
+  }
+
+  const protocol = String(payload.protocol ?? "auto");
+  const p = newParticipant(conf, {
+    display_name: destination.replace(/^sip:/i, ""),
+    protocol: protocol === "auto" ? "sip" : (protocol as MockParticipant["protocol"]),
+    role: payload.role === "HOST" ? "chair" : "guest",
+    uri: destination,
+  });
+  upsert(conf, p, true);
+
+  if (rejectNow) {
+    // decline: ring briefly, then leave without connecting
+    later(conf, rule.answerAfterMs ?? 2000, () => remove(conf, p.uuid, "Call rejected"));
+  } else if (rule.answerAfterMs !== undefined) {
+    later(conf, rule.answerAfterMs, () => {
+      connect(conf, p.uuid, Boolean(rule.video));
+      spawnAgent(conf, rule);
+      if (rule.dropAfterMs !== undefined) {
+        later(conf, rule.dropAfterMs, () => remove(conf, p.uuid, "Remote disconnect"));
+      }
+    });
+  }
+
+  return { status: 200, body: { status: "success", result: [p.uuid] } };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Tokens
+// ───────────────────────────────────────────────────────────────────────────────
+function issueToken(conf: Conference, participant: string): string {
+  const token = randomUUID();
+  conf.tokens.set(token, { participant, expiresAt: Date.now() + tokenExpiresS * 1000 });
+  return token;
+}
+
+function validToken(conf: Conference | undefined, token: string | null): boolean {
+  if (!conf || !token) return false;
+  const t = conf.tokens.get(token);
+  if (!t) return false;
+  if (t.expiresAt < Date.now()) {
+    conf.tokens.delete(token);
+    return false;
+  }
+  return true;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// HTTP
+// ───────────────────────────────────────────────────────────────────────────────
+const CORS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, token, pin, Last-Event-ID",
+};
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { ...CORS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (!chunks.length) return {};
+  try {
+    const parsed: unknown = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Open an event stream. With a Last-Event-ID still in history, replay only what
+ * was missed; otherwise (first connect, or too far behind) send a full sync.
+ */
+function openStream(conf: Conference, token: string, res: http.ServerResponse, lastEventId: number | null) {
+  res.writeHead(200, {
+    ...CORS,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const client: StreamClient = { res, token };
+  conf.streams.add(client);
+  res.on("close", () => conf.streams.delete(client));
+
+  const oldest = conf.history[0]?.id ?? conf.eventId + 1;
+  if (lastEventId !== null && lastEventId <= conf.eventId && lastEventId >= oldest - 1) {
+    const missed = conf.history.filter((e) => e.id > lastEventId);
+    log(conf.alias, `events resumed after ${lastEventId} (${missed.length} replayed)`);
+    missed.forEach((e) => writeEvent(client, e.id, e.event, e.data));
+    return;
+  }
+
+  const id = conf.eventId;
+  writeEvent(client, id, "participant_sync_begin", {});
+  conf.participants.forEach((p) => writeEvent(client, id, "participant_create", p));
+  writeEvent(client, id, "participant_sync_end", {});
+  writeEvent(client, id, "conference_update", {
+    locked: false,
+    guests_muted: false,
+    presentation_allowed: true,
+    started: true,
+  });
+  writeEvent(client, id, "layout", { view: conf.layout, participants: [] });
+}
+
+const PARTICIPANT_COMMANDS = new Set([
+  "disconnect",
+  "mute",
+  "unmute",
+  "video_muted",
+  "video_unmuted",
+  "role",
+  "spotlighton",
+  "spotlightoff",
+  "dtmf",
+]);
+
+async function route(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || "/", "http://mock.local");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS);
+    res.end();
+    return;
+  }
+  if (url.pathname === "/api/client/v2/status") {
+    send(res, 200, { status: "success", result: "OK" });
+    return;
+  }
+
+  const m = url.pathname.match(/^\/api\/client\/v2\/conferences\/([^/]+)\/(.+)$/);
+  if (!m) {
+    send(res, 404, { status: "failed", result: "Not found" });
+    return;
+  }
+  const alias = decodeURIComponent(m[1]);
+  const action = m[2];
+  const token = (req.headers.token as string | undefined) ?? url.searchParams.get("token");
+
+  if (action === "request_token" && req.method === "POST") {
+    if (scenario.pin && req.headers.pin !== scenario.pin) {
+      send(res, 403, { status: "success", result: { pin: "required", guest_pin: "none" } });
+      return;
+    }
+    const body = await readJson(req);
+    const conf = conference(alias);
+    const api = newParticipant(conf, {
+      display_name: typeof body.display_name === "string" ? body.display_name : "API",
+      protocol: "api",
+      role: "chair",
+      call_direction: "in",
+      is_connected: true,
+      start_time: Math.floor(Date.now() / 1000),
+    });
+    upsert(conf, api, true);
+    log(alias, `request_token (${api.display_name})`);
+    send(res, 200, {
+      status: "success",
+      result: {
+        token: issueToken(conf, api.uuid),
+        expires: String(tokenExpiresS),
+        participant_uuid: api.uuid,
+        role: "HOST",
+        display_name: api.display_name,
+      },
+    });
+    return;
+  }
+
+  const conf = conferences.get(alias);
+  if (!validToken(conf, token)) {
+    send(res, 403, { status: "failed", result: "Invalid token" });
+    return;
+  }
+  const c = conf as Conference;
+  const caller = c.tokens.get(token as string)!;
+
+  switch (`${req.method} ${action}`) {
+    case "POST refresh_token": {
+      c.tokens.delete(token as string);
+      send(res, 200, {
+        status: "success",
+        result: { token: issueToken(c, caller.participant), expires: String(tokenExpiresS) },
+      });
+      return;
+    }
+    case "POST release_token": {
+      c.tokens.delete(token as string);
+      remove(c, caller.participant, "API token released");
+      send(res, 200, { status: "success", result: true });
+      return;
+    }
+    case "POST dial": {
+      const r = dial(c, await readJson(req));
+      send(res, r.status, r.body);
+      return;
+    }
+    case "GET participants": {
+      send(res, 200, { status: "success", result: Array.from(c.participants.values()) });
+      return;
+    }
+    case "POST disconnect": {
+      send(res, 200, { status: "success", result: true });
+      endConference(c, "Conference disconnected by API");
+      return;
+    }
+    case "GET events": {
+      const lastId = Number(req.headers["last-event-id"]);
+      openStream(c, token as string, res, Number.isInteger(lastId) && lastId >= 0 ? lastId : null);
+      return;
+    }
+    case "POST transform_layout": {
+      const body = await readJson(req);
+      log(alias, action, JSON.stringify(body));
+      const transforms = body.transforms;
+      if (transforms && typeof transforms === "object" && "layout" in transforms) {
+        c.layout = String(transforms.layout);
+        broadcast(c, "layout", { view: c.layout, participants: [] });
+      }
+      send(res, 200, { status: "success", result: true });
+      return;
+    }
+    case "POST message": {
+      log(alias, action, JSON.stringify(await readJson(req)));
+      send(res, 200, { status: "success", result: true });
+      return;
+    }
+  }
+
+  const pm = action.match(/^participants\/([^/]+)\/([a-z_]+)$/);
+  if (req.method === "POST" && pm && PARTICIPANT_COMMANDS.has(pm[2])) {
+    const p = c.participants.get(pm[1]);
+    if (!p) {
+      send(res, 404, { status: "failed", result: "Participant not found" });
+      return;
+    }
+    const body = await readJson(req);
+    const cmd = pm[2];
+    log(alias, `${cmd} ${p.display_name}`, cmd === "dtmf" || cmd === "role" ? JSON.stringify(body) : "");
+    if (cmd === "disconnect") remove(c, p.uuid, "Disconnected by API");
+    else if (cmd === "mute" || cmd === "unmute") upsert(c, { ...p, is_muted: cmd === "mute" ? "YES" : "NO" });
+    else if (cmd === "video_muted" || cmd === "video_unmuted") {
+      upsert(c, { ...p, is_video_muted: cmd === "video_muted" });
+    } else if (cmd === "role") upsert(c, { ...p, role: body.role === "chair" ? "chair" : "guest" });
+    else if (cmd === "spotlighton" || cmd === "spotlightoff") {
+      upsert(c, { ...p, spotlight: cmd === "spotlighton" ? Date.now() : 0 });
+    }
+    send(res, 200, { status: "success", result: true });
+    return;
+  }
+
+  send(res, 404, { status: "failed", result: `Unsupported: ${req.method} ${action}` });
+}
+
+http
+  .createServer((req, res) => {
+    route(req, res).catch((e) => {
+      console.error("[mock-pexip]", "request failed", e);
+      if (!res.headersSent) send(res, 500, { status: "failed", result: "Mock error" });
+      else res.end();
+    });
+  })
+  .listen(port, () => {
+    console.info("[mock-pexip]", `listening on http://localhost:${port}`);
+    console.info("[mock-pexip]", `scenario "${scenario.name}": ${scenario.description}`);
+  });
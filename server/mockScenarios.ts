@@ -0,0 +1,131 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: server/mockScenarios.ts
+// Scriptable behaviour for the mock Conferencing Node (server/mockPexipNode.ts).
+// Each dialed destination is matched against `rules` (first match wins) to decide
+// whether it rings, answers, rejects or drops, and when.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import { readFileSync } from "node:fs";
+
+export type RejectMode =
+  | "no_route" // /dial succeeds but creates no participant (result: [])
+  | "failed"   // /dial returns { status: "failed" }
+  | "decline"; // participant is created, rings, then leaves without connecting
+
+export type DestinationRule = {
+  /** substring of the destination (case-insensitive), "/regex/" or "*" */
+  match: string;
+  /** label used in mock logs */
+  name?: string;
+  /** ring time before the far end answers; omit to ring forever */
+  answerAfterMs?: number;
+  /** reject the first N dial attempts that hit this rule (true = always) */
+  reject?: number | boolean;
+  rejectMode?: RejectMode;
+  /** connected participant sends video */
+  video?: boolean;
+  /** hang up this many ms after answering */
+  dropAfterMs?: number;
+  /**
+   * Contact-center legs: once answered, an agent WebRTC participant joins
+   * after `afterMs` (and optionally leaves after `leaveAfterMs`).
+   */
+  agentWebrtc?: { afterMs: number; displayName?: string; leaveAfterMs?: number };
+};
+
+export type MockScenario = {
+  name: string;
+  description: string;
+  /** PIN required by request_token (omit for an open VMR) */
+  pin?: string;
+  /** token lifetime in seconds (Pexip default is 120) */
+  tokenExpiresS?: number;
+  rules: DestinationRule[];
+};
+
+const CONTACT_CENTER = "@example.cloud";
+
+export const BUILTIN_SCENARIOS: Record<string, MockScenario> = {
+  happy: {
+    name: "happy",
+    description: "Contact center answers after 3 s, agent joins, VTC answers after 3 s.",
+    rules: [
+      { match: CONTACT_CENTER, name: "contact-center", answerAfterMs: 3000, agentWebrtc: { afterMs: 1500 } },
+      { match: "*", name: "customer-vtc", answerAfterMs: 3000, video: true },
+    ],
+  },
+  "vtc-rejects-first": {
+    name: "vtc-rejects-first",
+    description: "Contact center answers after 4 s, then the VTC rejects the first candidate.",
+    rules: [
+      { match: CONTACT_CENTER, name: "contact-center", answerAfterMs: 4000, agentWebrtc: { afterMs: 1000 } },
+      { match: "*", name: "customer-vtc", reject: 1, rejectMode: "no_route", answerAfterMs: 2000, video: true },
+    ],
+  },
+  "vtc-drops": {
+    name: "vtc-drops",
+    description: "Call becomes active, then the customer VTC drops after 30 s.",
+    rules: [
+      { match: CONTACT_CENTER, name: "contact-center", answerAfterMs: 2000, agentWebrtc: { afterMs: 1000 } },
+      { match: "*", name: "customer-vtc", answerAfterMs: 2000, video: true, dropAfterMs: 30_000 },
+    ],
+  },
+  "agent-drops": {
+    name: "agent-drops",
+    description: "All legs connect, then the agent WebRTC leaves after 40 s (agent-drop rule).",
+    rules: [
+      {
+        match: CONTACT_CENTER,
+        name: "contact-center",
+        answerAfterMs: 2000,
+        agentWebrtc: { afterMs: 1000, leaveAfterMs: 40_000 },
+      },
+      { match: "*", name: "customer-vtc", answerAfterMs: 2000, video: true },
+    ],
+  },
+  "no-agent": {
+    name: "no-agent",
+    description: "Contact center rings forever (no agent answers).",
+    rules: [
+      { match: CONTACT_CENTER, name: "contact-center" },
+      { match: "*", name: "customer-vtc", answerAfterMs: 2000, video: true },
+    ],
+  },
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+/** Does a rule's `match` apply to this destination? */
+export function ruleMatches(rule: DestinationRule, destination: string): boolean {
+  const m = rule.match.trim();
+  if (m === "*") return true;
+  const re = m.match(/^\/(.+)\/([a-z]*)$/);
+  if (re) return new RegExp(re[1], re[2] || "i").test(destination);
+  return destination.toLowerCase().includes(m.toLowerCase());
+}
+
+/**
+ * Load the active scenario: MOCK_SCENARIO_FILE (JSON with the MockScenario shape)
+ * wins over MOCK_SCENARIO (a built-in name, default "happy").
+ */
+export function loadScenario(): MockScenario {
+  const file = (process.env.MOCK_SCENARIO_FILE || "").trim();
+  if (file) {
+    const parsed: unknown = JSON.parse(readFileSync(file, "utf8"));
+    if (!isRecord(parsed) || !Array.isArray(parsed.rules)) {
+      throw new Error(`${file}: expected { name, description, rules: [...] }`);
+    }
+    return parsed as MockScenario;
+  }
+
+  const name = (process.env.MOCK_SCENARIO || "happy").trim();
+  const scenario = BUILTIN_SCENARIOS[name];
+  if (!scenario) {
+    throw new Error(
+      `Unknown MOCK_SCENARIO "${name}". Built-ins: ${Object.keys(BUILTIN_SCENARIOS).join(", ")}`
+    );
+  }
+  return scenario;
+}
@@ -0,0 +1,258 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: server/pexipProxy.ts
+// Dev/edge proxy between the widget and a Pexip Conferencing Node.
+// - Forwards /api/client/v2/conferences/* (incl. the SSE `events` stream)
+// - Adds CORS headers so the browser never talks to the node cross-origin
+// - Keeps the conference PIN server-side (injected on request_token only)
+// - Requires a valid Genesys Cloud bearer token before forwarding anything
+//
+// Run: npm run dev:proxy   (configure via environment, see .env.example)
+// Point the widget at it with VITE_PEXIP_NODE_URL=http://localhost:8787
+// and VITE_PEXIP_USE_PROXY=true.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import http from "node:http";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+
+type ProxyConfig = {
+  port: number;
+  upstream: string;
+  pin: string;
+  genesysApiBase: string;
+  allowedOrigins: string[];
+  authCacheMs: number;
+};
+
+function loadConfig(): ProxyConfig {
+  const upstream = (process.env.PEXIP_UPSTREAM_URL || "").trim().replace(/\/+$/, "");
+  if (!upstream) {
+    throw new Error("PEXIP_UPSTREAM_URL is required (e.g. https://pexip-node.example.com)");
+  }
+  const region = (process.env.GENESYS_REGION || "usw2.pure.cloud").trim();
+  return {
+    port: Number(process.env.PROXY_PORT) || 8787,
+    upstream,
+    pin: (process.env.PEXIP_PIN || "").trim(),
+    genesysApiBase: `https://api.${region}`,
+    allowedOrigins: (process.env.PROXY_ALLOWED_ORIGINS || "*")
+      .split(",")
+      .map((o) => o.trim())
+      .filter(Boolean),
+    authCacheMs: Number(process.env.PROXY_AUTH_CACHE_MS) || 60_000,
+  };
+}
+
+const cfg = loadConfig();
+
+// Paths we forward; everything else is 404.
+const CONFERENCE_PATH = /^\/api\/client\/v2\/conferences\/[^/]+\/[A-Za-z0-9_/-]+$/;
+const STATUS_PATH = "/api/client/v2/status";
+
+// Request headers never forwarded upstream (auth is ours, PIN is server-side).
+const STRIPPED_REQUEST_HEADERS = new Set([
+  "host",
+  "origin",
+  "referer",
+  "cookie",
+  "connection",
+  "content-length",
+  "authorization",
+  "pin",
+]);
+
+// Upstream response headers passed back to the browser.
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "cache-control"];
+
+function log(...args: unknown[]) {
+  console.info("[pexip-proxy]", ...args);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// CORS
+// ───────────────────────────────────────────────────────────────────────────────
+function corsHeaders(origin: string | undefined): Record<string, string> {
+  const allowAny = cfg.allowedOrigins.includes("*");
+  if (!origin || (!allowAny && !cfg.allowedOrigins.includes(origin))) return {};
+  return {
+    "Access-Control-Allow-Origin": allowAny ? "*" : origin,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization, token, Last-Event-ID",
+    "Access-Control-Max-Age": "600",
+    Vary: "Origin",
+  };
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  cors: Record<string, string>
+) {
+  res.writeHead(status, { ...cors, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Genesys bearer validation (cached per token)
+// ───────────────────────────────────────────────────────────────────────────────
+const validTokens = new Map<string, number>(); // token -> valid until (ms)
+// bounds the cache between sweeps (many agents, or a flood of made-up tokens)
+const MAX_CACHED_TOKENS = 1000;
+const TOKEN_SWEEP_MS = 60_000;
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [token, until] of validTokens) if (until <= now) validTokens.delete(token);
+}, TOKEN_SWEEP_MS).unref();
+
+/**
+ * Bearer from the Authorization header only: a token in the query string would
+ * end up in access logs, so the widget uses the fetch SSE transport behind the proxy.
+ */
+function extractBearer(req: http.IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (header && /^Bearer\s+/i.test(header)) return header.replace(/^Bearer\s+/i, "").trim();
+  return null;
+}
+
+async function isValidGenesysToken(token: string): Promise<boolean> {
+  const now = Date.now();
+  const until = validTokens.get(token);
+  if (until && until > now) return true;
+
+  try {
+    const res = await fetch(`${cfg.genesysApiBase}/api/v2/tokens/me`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      validTokens.delete(token);
+      return false;
+    }
+    if (validTokens.size >= MAX_CACHED_TOKENS) {
+      // Map keeps insertion order: drop the oldest entry
+      const oldest = validTokens.keys().next().value;
+      if (oldest !== undefined) validTokens.delete(oldest);
+    }
+    validTokens.set(token, now + cfg.authCacheMs);
+    return true;
+  } catch (e) {
+    console.warn("[pexip-proxy]", "Genesys token check failed (network)", e);
+    return false;
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Forwarding
+// ───────────────────────────────────────────────────────────────────────────────
+async function readBody(req: http.IncomingMessage): Promise<Buffer | undefined> {
+  if (req.method === "GET" || req.method === "HEAD") return undefined;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return chunks.length ? Buffer.concat(chunks) : undefined;
+}
+
+function upstreamHeaders(req: http.IncomingMessage, path: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(req.headers)) {
+    if (STRIPPED_REQUEST_HEADERS.has(k) || v === undefined) continue;
+    out[k] = Array.isArray(v) ? v.join(", ") : v;
+  }
+  if (cfg.pin && path.endsWith("/request_token")) out.pin = cfg.pin;
+  return out;
+}
+
+async function forward(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  cors: Record<string, string>
+) {
+  url.searchParams.delete("access_token");
+  const target = `${cfg.upstream}${url.pathname}${url.search}`;
+  const isEvents = url.pathname.endsWith("/events");
+
+  const abort = new AbortController();
+  // stop the upstream stream as soon as the browser goes away
+  res.on("close", () => abort.abort());
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, {
+      method: req.method,
+      headers: upstreamHeaders(req, url.pathname),
+      body: await readBody(req),
+      signal: abort.signal,
+    });
+  } catch (e) {
+    if (abort.signal.aborted) return;
+    console.warn("[pexip-proxy]", "upstream unreachable", target, e);
+    sendJson(res, 502, { status: "failed", result: "Pexip node unreachable" }, cors);
+    return;
+  }
+
+  const headers: Record<string, string> = { ...cors };
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const v = upstream.headers.get(name);
+    if (v) headers[name] = v;
+  }
+  if (isEvents) {
+    headers["Cache-Control"] = "no-cache";
+    headers["X-Accel-Buffering"] = "no";
+  }
+  res.writeHead(upstream.status, headers);
+  if (isEvents) res.flushHeaders();
+
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>)
+    .on("error", () => res.end())
+    .pipe(res);
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Server
+// ───────────────────────────────────────────────────────────────────────────────
+const server = http.createServer((req, res) => {
+  const cors = corsHeaders(req.headers.origin);
+  const url = new URL(req.url || "/", "http://proxy.local");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  // health probe used by node failover: no auth, reveals nothing
+  if (url.pathname === STATUS_PATH) {
+    void forward(req, res, url, cors);
+    return;
+  }
+
+  if (!CONFERENCE_PATH.test(url.pathname)) {
+    sendJson(res, 404, { status: "failed", result: "Not found" }, cors);
+    return;
+  }
+
+  void (async () => {
+    const bearer = extractBearer(req);
+    if (!bearer || !(await isValidGenesysToken(bearer))) {
+      log("rejected (Genesys auth)", req.method, url.pathname);
+      sendJson(res, 401, { status: "failed", result: "Genesys authentication required" }, cors);
+      return;
+    }
+    log(req.method, url.pathname);
+    await forward(req, res, url, cors);
+  })().catch((e) => {
+    console.error("[pexip-proxy]", "request failed", e);
+    if (!res.headersSent) sendJson(res, 500, { status: "failed", result: "Proxy error" }, cors);
+    else res.end();
+  });
+});
+
+server.listen(cfg.port, () => {
+  log(`listening on http://localhost:${cfg.port} -> ${cfg.upstream}`);
+  log(`PIN ${cfg.pin ? "configured (server-side)" : "not configured"}; origins: ${cfg.allowedOrigins.join(", ")}`);
+});
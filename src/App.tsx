@@ -4,17 +4,35 @@
 
 import { useEffect, useMemo, useState } from "react";
 import type React from "react";
-import PexOrchestrator from "./orchestrator";
+import PexOrchestrator, { LEG_LABELS, parseDtmfSequence } from "./orchestrator";
 import type {
+  AgentAnswerWait,
+  ChatMessage,
+  ConferenceState,
+  Leg3RetryState,
   OrchestratorPhase,
   PexipConfig,
   RosterSnapshot,
   Participant,
+  SessionSummary,
+  TimelineEntry,
 } from "./types";
 import { fetchRegisteredEndpoints } from "./api";
 import type { DialOption } from "./api";
 import { MasterVariables } from "./masterVariables";
-import { getCurrentUserId, listMyQueues, type AgentQueue } from "./genesys";
+import { isPexipError } from "./pexipErrors";
+import { isTerminalDecision, resolveLifecyclePolicy, type LifecycleDecision } from "./lifecyclePolicy";
+import { parseLeg3Destinations, type Leg3RingMode } from "./leg3Resolver";
+import { clearSession, loadSession, type PersistedSession } from "./sessionStore";
+import { TabCoordinator, type MirrorState } from "./tabCoordinator";
+import { installVisibilityHandlers } from "./visibility";
+import { postSessionSummary } from "./sessionMetrics";
+import {
+  getCurrentUserId,
+  getGenesysAccessToken,
+  listMyQueues,
+  type AgentQueue,
+} from "./genesys";
 import "./theme.css";
 
 function StatusPill({ phase }: { phase: OrchestratorPhase }) {
@@ -25,13 +43,26 @@ function StatusPill({ phase }: { phase: OrchestratorPhase }) {
     waiting_agent_answered: "Waiting for agent to answer…",
     dialing_leg3: "Dialing destination (SIP)…",
     active: "Call active",
+    reconnecting: "Reconnecting customer VTC…",
     ended: "Start call", // keep UI optimistic after retirement
     error: "Error",
   };
   return <span className="pill">{map[phase]}</span>;
 }
 
+const KEYPAD_KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "*", "0", "#"];
+
 function toMessage(err: unknown): string {
+  if (isPexipError(err)) {
+    switch (err.kind) {
+      case "network":
+        return `Cannot reach the Pexip node (${err.call}). Check network/CORS and try again.`;
+      case "token_expired":
+        return "The Pexip session token expired. Start the call again.";
+      default:
+        return err.message;
+    }
+  }
   if (err instanceof Error) return err.message;
   if (typeof err === "string") return err;
   try {
@@ -41,6 +72,19 @@ function toMessage(err: unknown): string {
   }
 }
 
+/** m:ss for the agent-answer countdown (never negative). */
+function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/** Metric duration for the session summary ("—" when the step never happened). */
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  return formatCountdown(ms);
+}
+
 export default function App() {
   // brand setup
   useEffect(() => {
@@ -82,21 +126,81 @@ export default function App() {
 
   // Optional manual alias
   const [manualAliases, setManualAliases] = useState<string>("");
+  // how several manual aliases are rung (primary + backup room systems)
+  const [ringMode, setRingMode] = useState<Leg3RingMode>(MasterVariables.leg3.ringMode);
+
+  // session left running by a previous page load (reload / iframe reload)
+  const [orphan, setOrphan] = useState<PersistedSession | null>(() => loadSession());
+  const [orphanBusy, setOrphanBusy] = useState(false);
+
+  // session owned by another tab of this agent (read-only mirror)
+  const [mirror, setMirror] = useState<MirrorState | null>(null);
 
   // Orchestrator state
   const [phase, setPhase] = useState<OrchestratorPhase>("idle");
   const [roster, setRoster] = useState<RosterSnapshot | null>(null);
+  const [conference, setConference] = useState<ConferenceState | null>(null);
+  // why the last session ended (terminal lifecycle decision)
+  const [endReason, setEndReason] = useState<string | null>(null);
+  // phase and leg transitions of the current session
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  // agent-answer countdown (null when not waiting or no timeout configured)
+  const [agentWait, setAgentWait] = useState<AgentAnswerWait | null>(null);
+  // Leg 3 redial budget (initial routing failures and mid-call reconnects)
+  const [leg3Retry, setLeg3Retry] = useState<Leg3RetryState | null>(null);
+  // metrics of the last finished session, and how its upload went ("sent" or an error)
+  const [summary, setSummary] = useState<SessionSummary | null>(null);
+  const [summaryUpload, setSummaryUpload] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
   const [error, setError] = useState<string | null>(null);
 
-  const pin = (MasterVariables.conference?.pin ?? "").toString();
+  // lifecycle profiles that hand the call off (release Leg 0) close the in-call controls
+  const handOffAfterMs = useMemo(() => {
+    const p = resolveLifecyclePolicy(MasterVariables.lifecycle.profiles, MasterVariables.lifecycle.profile);
+    return p.leg0Retirement.enabled ? p.leg0Retirement.afterMs : null;
+  }, []);
+
+  // conference layout preset (in-call selector)
+  const [layoutPresetId, setLayoutPresetId] = useState<string>(MasterVariables.layouts.defaultPreset);
+
+  // ad-hoc extra participant (interpreter, specialist)
+  const [extraDestination, setExtraDestination] = useState<string>("");
+  const [extraLabel, setExtraLabel] = useState<string>("");
+  const [extraRole, setExtraRole] = useState<"HOST" | "GUEST">("GUEST");
+  const [extraCallType, setExtraCallType] = useState<"audio" | "video">("video");
+
+  // in-conference chat
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [chatDraft, setChatDraft] = useState<string>("");
+
+  // digits sent from the in-call keypad (Leg 1)
+  const [dtmfSent, setDtmfSent] = useState<string>("");
+
+  const configuredPin = (MasterVariables.conference?.pin ?? "").toString();
+
+  // PIN prompt (shown after a PIN rejection from request_token)
+  const [pinPrompt, setPinPrompt] = useState(false);
+  const [pinEntry, setPinEntry] = useState<string>("");
+  const pin = pinPrompt ? pinEntry : configuredPin;
   const contactCenterAlias = MasterVariables.dialPlan.contactCenterAlias;
 
   // orchestrator instance
   const orchestrator = useMemo(() => {
-    const cfg: PexipConfig = { nodeUrl: pexipNodeUrl };
+    const cfg: PexipConfig = {
+      nodeUrl: pexipNodeUrl,
+      nodes: MasterVariables.pexip.failoverNodes,
+      bearerToken: MasterVariables.pexip.useProxy ? getGenesysAccessToken : undefined,
+      sseTransport: MasterVariables.pexip.sseTransport,
+    };
     return new PexOrchestrator(cfg);
   }, [pexipNodeUrl]);
 
+  // reconcile after the tab was hidden/frozen or the network dropped; warn before leaving a live session
+  useEffect(() => installVisibilityHandlers(orchestrator), [orchestrator]);
+
+  // one session per agent across tabs
+  const coordinator = useMemo(() => new TabCoordinator(), []);
+
   // Bootstrap: userId, queues, external contacts
   useEffect(() => {
     (async () => {
@@ -126,36 +230,222 @@ export default function App() {
   useEffect(() => {
     const offPhase = orchestrator.on("phase", setPhase);
     const offRoster = orchestrator.on("roster", setRoster);
-    const offErr = orchestrator.on("error", (err: unknown) => setError(toMessage(err)));
+    const offErr = orchestrator.on("error", (err: unknown) => {
+      if (isPexipError(err) && err.kind === "pin") setPinPrompt(true);
+      setError(toMessage(err));
+    });
+    const offMessage = orchestrator.on("message", (m: ChatMessage) =>
+      setMessages((prev) => [...prev, m].slice(-50))
+    );
+    const offConference = orchestrator.on("conference", setConference);
+    const offLifecycle = orchestrator.on("lifecycle", (d: LifecycleDecision) => {
+      if (isTerminalDecision(d)) setEndReason(d.reason);
+    });
+    const offTimeline = orchestrator.on("timeline", (t: TimelineEntry) =>
+      // a new session starts at getting_token; drop the previous one's entries
+      setTimeline((prev) =>
+        t.scope === "phase" && t.to === "getting_token" ? [t] : [...prev, t].slice(-100)
+      )
+    );
+    const offAgentWait = orchestrator.on("agentWait", setAgentWait);
+    const offLeg3Retry = orchestrator.on("leg3Retry", setLeg3Retry);
+    const offSummary = orchestrator.on("summary", (s: SessionSummary) => {
+      setSummary(s);
+      setSummaryUpload(null);
+      const url = MasterVariables.reporting.summaryUrl;
+      if (!url) return;
+      const bearer = MasterVariables.reporting.summaryGenesysAuth ? getGenesysAccessToken() : undefined;
+      postSessionSummary(url, s, bearer).then(
+        () => setSummaryUpload("sent"),
+        (err: unknown) => {
+          console.warn("[agent-dial]", "session summary upload failed", err);
+          setSummaryUpload(toMessage(err));
+        }
+      );
+    });
     return () => {
       offPhase?.();
       offRoster?.();
       offErr?.();
+      offMessage?.();
+      offConference?.();
+      offLifecycle?.();
+      offTimeline?.();
+      offAgentWait?.();
+      offLeg3Retry?.();
+      offSummary?.();
     };
   }, [orchestrator]);
 
+  // tab coordination: mirror another tab's session, take it over when that tab closes
+  useEffect(() => {
+    coordinator.start();
+    const offMirror = coordinator.onMirror(setMirror);
+    const offTakeover = coordinator.onTakeover((session) => {
+      void (async () => {
+        if (!(await coordinator.claim())) return;
+        setError(null);
+        setEndReason(null);
+        setOrphan(null);
+        setSessionAlias(session.alias);
+        // a PIN-protected session whose token expired stays saved; offer it in the resume card
+        if (!(await orchestrator.resume(session))) setOrphan(loadSession());
+      })();
+    });
+    // frozen long enough to be taken over: the other tab drives the session now
+    const offYield = coordinator.onYield(() => orchestrator.stop("taken over by another tab"));
+    // closing (or reloading) the owning tab hands a running session over; once another
+    // tab has it, this tab's snapshot must not come back as a resume card after a reload
+    const onPageHide = () => {
+      if (coordinator.isOwner() && coordinator.release(orchestrator.snapshot())) clearSession();
+    };
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      offMirror();
+      offTakeover();
+      offYield();
+      window.removeEventListener("pagehide", onPageHide);
+      coordinator.close();
+    };
+  }, [coordinator, orchestrator]);
+
+  // owner: keep the other tabs' mirror current; let go once the session is over
+  useEffect(() => {
+    if (!coordinator.isOwner()) return;
+    if (phase === "ended" || phase === "error") {
+      coordinator.release(null);
+      return;
+    }
+    coordinator.publish({ alias: sessionAlias, phase, roster, session: orchestrator.snapshot() });
+  }, [coordinator, orchestrator, phase, roster, sessionAlias]);
+
+  // tick the agent-answer and Leg 3 redial countdowns
+  const counting = !!agentWait || !!leg3Retry?.nextAttemptAt;
+  useEffect(() => {
+    if (!counting) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [counting]);
+
   // UI reset on end
   useEffect(() => {
     if (phase === "ended") {
       setSessionAlias(MasterVariables.conference.randomAlias());
       setSelectedEndpoint("");
+      setDtmfSent("");
+      setMessages([]);
+      setChatDraft("");
+      setConference(null);
+      setLayoutPresetId(MasterVariables.layouts.defaultPreset);
     }
   }, [phase]);
 
   // helpers
-  function parseManualAliases(raw: string): string[] {
-    return raw.split(",").map((s) => s.trim()).filter(Boolean);
-  }
-  function resolveLeg3Destination(): string {
-    const manual = parseManualAliases(manualAliases);
-    if (manual.length > 0) return manual[0];
-    return selectedEndpoint || endpoints[0]?.value || "";
+  const manualDestinations = parseLeg3Destinations(manualAliases);
+  function resolveLeg3Destinations(): string[] {
+    if (manualDestinations.length > 0) return manualDestinations;
+    const selected = selectedEndpoint || endpoints[0]?.value || "";
+    return selected ? [selected] : [];
   }
 
+  // per-leg call control
+  const toggleMute = async (p: Participant) => {
+    try {
+      // the roster update from the node reflects the new mute state
+      await orchestrator.muteParticipant(p.id, !p.isAudioMuted);
+    } catch (err) {
+      setError(toMessage(err));
+    }
+  };
+  const dropParticipant = async (participantId: string) => {
+    try {
+      await orchestrator.disconnectParticipant(participantId);
+    } catch (err) {
+      setError(toMessage(err));
+    }
+  };
+
+  const addExtra = async () => {
+    try {
+      await orchestrator.addParticipant(extraDestination, extraRole, extraCallType, {
+        label: extraLabel,
+      });
+      setExtraDestination("");
+      setExtraLabel("");
+    } catch (err) {
+      setError(toMessage(err));
+    }
+  };
+
+  const pressKey = async (digit: string) => {
+    try {
+      await orchestrator.sendDtmf("leg1", digit);
+      setDtmfSent((prev) => (prev + digit).slice(-24));
+    } catch (err) {
+      setError(toMessage(err));
+    }
+  };
+
+  const changeLayout = async (presetId: string) => {
+    const preset = MasterVariables.layouts.presets.find((p) => p.id === presetId);
+    if (!preset) return;
+    try {
+      await orchestrator.applyLayout(preset);
+      setLayoutPresetId(presetId);
+    } catch (err) {
+      setError(toMessage(err));
+    }
+  };
+
+  const sendChat = async (text: string) => {
+    try {
+      await orchestrator.sendMessage(text);
+      setChatDraft("");
+    } catch (err) {
+      setError(toMessage(err));
+    }
+  };
+
+  // orphaned session: take it over, or end it for everyone
+  const resumeOrphan = async () => {
+    if (!orphan) return;
+    if (!(await coordinator.claim())) {
+      setError("A session is already running in another tab.");
+      return;
+    }
+    setOrphanBusy(true);
+    setError(null);
+    setEndReason(null);
+    setSummary(null);
+    setSessionAlias(orphan.alias);
+    const attached = await orchestrator.resume(orphan, orphan.pinProtected ? pin || undefined : undefined);
+    // still saved when the PIN is needed (the PIN field is shown by the error handler)
+    setOrphan(attached ? null : loadSession());
+    setOrphanBusy(false);
+  };
+  const endOrphan = async () => {
+    if (!orphan) return;
+    setOrphanBusy(true);
+    setError(null);
+    const ended = await orchestrator.endPersisted(orphan, orphan.pinProtected ? pin || undefined : undefined);
+    setOrphan(ended ? null : loadSession());
+    setOrphanBusy(false);
+  };
+
   // actions
   const initiate = async () => {
     setError(null);
-    const second = resolveLeg3Destination();
+    setEndReason(null);
+    if (!(await coordinator.claim())) {
+      setError("A session is already running in another tab.");
+      return;
+    }
+    // starting over abandons the saved session (its entry is overwritten)
+    setOrphan(null);
+    setSummary(null);
+    const destinations = resolveLeg3Destinations();
+    const second = destinations[0] ?? "";
 
     console.info("[agent-dial]", "initiate payload", {
       sessionAlias,
@@ -163,6 +453,7 @@ export default function App() {
       queueId: selectedQueueId,
       contactCenterAlias,
       secondDialAlias: second,
+      ringGroup: destinations.length > 1 ? { destinations, mode: ringMode } : undefined,
       pexipNodeUrl,
       hasPin: Boolean(pin),
       externalDisplayName: MasterVariables.ui?.externalDeviceDisplayName,
@@ -173,7 +464,29 @@ export default function App() {
       displayName: MasterVariables.ui?.externalDeviceDisplayName || "Genesys Widget",
       pin: pin || undefined,
       contactCenterAlias,
+      leg1Protocol: MasterVariables.dialPlan.protocol,
+      leg1Dtmf: parseDtmfSequence(MasterVariables.dialPlan.leg1Dtmf),
+      agentAnswerTimeoutMs: MasterVariables.dialPlan.agentAnswerTimeoutMs,
+      overflowContactCenterAlias: MasterVariables.dialPlan.overflowAlias || undefined,
       secondDialAlias: second,
+      leg3Resolver: {
+        formats: MasterVariables.leg3.formats,
+        sipDomain: MasterVariables.leg3.sipDomain || undefined,
+        cviDomain: MasterVariables.leg3.cviDomain || undefined,
+        e164Domain: MasterVariables.leg3.e164Domain || undefined,
+      },
+      leg3RingGroup:
+        destinations.length > 1
+          ? { destinations, mode: ringMode, huntTimeoutMs: MasterVariables.leg3.huntTimeoutMs }
+          : undefined,
+      layoutPreset: MasterVariables.layouts.defaultPreset
+        ? MasterVariables.layouts.presets.find((p) => p.id === MasterVariables.layouts.defaultPreset)
+        : undefined,
+      recordingUrl: MasterVariables.recording.rtmpUrl || undefined,
+      lifecyclePolicy: resolveLifecyclePolicy(
+        MasterVariables.lifecycle.profiles,
+        MasterVariables.lifecycle.profile
+      ),
       agentUserId: userId,
       queueId: selectedQueueId,
     });
@@ -187,9 +500,113 @@ export default function App() {
         <StatusPill phase={phase} />
       </header>
 
-      {phase === "idle" || phase === "error" || phase === "ended" ? (
+      {mirror && (phase === "idle" || phase === "error" || phase === "ended") ? (
+        <div className="card grid gap-8" aria-label="Session in another tab">
+          <div className="row justify-between">
+            <div className="section-title">Session running in another tab</div>
+            <StatusPill phase={mirror.phase} />
+          </div>
+          <div className="label">
+            {mirror.alias && <span className="kbd">{mirror.alias}</span>} Read-only: control it from the tab
+            that started it. This tab takes over if that one closes.
+          </div>
+          {mirror.roster && (
+            <ul className="grid gap-6">
+              {mirror.roster.participants.map((p: Participant) => (
+                <li key={p.id} className="row">
+                  <span className="pill pill-accent" aria-label={`${p.protocol} participant`}>{p.protocol}</span>
+                  <span>{p.displayName || p.id}</span>
+                  {!p.isConnected && <em className="label">(ringing)</em>}
+                  {p.isVideo && <span className="label">• video</span>}
+                  {p.isAudioMuted && <span className="label">• muted</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : phase === "idle" || phase === "error" || phase === "ended" ? (
         <div className="card grid gap-12" role="form" aria-label="Dialer form">
           {error && <div className="card error-card" role="alert">{error}</div>}
+          {phase === "ended" && endReason && (
+            <div className="label" role="status">Last session ended: {endReason}</div>
+          )}
+          {summary && (phase === "ended" || phase === "error") && (
+            <details className="card grid gap-8" aria-label="Last session summary">
+              <summary className="section-title">Last session summary</summary>
+              <ul className="grid gap-6 timeline-log">
+                <li>
+                  <span className="label">Session: </span>
+                  <span className="kbd">{summary.alias}</span> {summary.outcome}
+                  {summary.resumed && <span className="label"> (re-attached after reload)</span>}
+                </li>
+                {summary.handedOff && (
+                  <li className="label">
+                    Handed off: the call continued after this widget let go; durations cover the widget only.
+                  </li>
+                )}
+                <li>
+                  <span className="label">End reason: </span>
+                  {summary.endReason}
+                  {summary.endRule && <span className="label"> ({summary.endRule})</span>}
+                </li>
+                <li><span className="label">Time to token: </span>{formatDuration(summary.timeToTokenMs)}</li>
+                <li>
+                  <span className="label">{LEG_LABELS.leg1} ring time: </span>
+                  {formatDuration(summary.leg1RingMs)}
+                  {summary.leg1Dials > 1 && <span className="label"> ({summary.leg1Dials} dials)</span>}
+                </li>
+                <li><span className="label">Agent answer time: </span>{formatDuration(summary.agentAnswerMs)}</li>
+                <li>
+                  <span className="label">{LEG_LABELS.leg3}: </span>
+                  {summary.leg3Attempts.length} attempt{summary.leg3Attempts.length === 1 ? "" : "s"}, connected in{" "}
+                  {formatDuration(summary.leg3ConnectMs)}
+                  {summary.leg3Destination && <span className="label"> via {summary.leg3Destination}</span>}
+                  {summary.leg3Reconnects > 0 && <span className="label"> • {summary.leg3Reconnects} reconnect(s)</span>}
+                </li>
+                {summary.leg3Attempts.map((a, i) => (
+                  <li key={`${a.at}-${i}`} className="label">
+                    {new Date(a.at).toLocaleTimeString()} {a.destination} ({a.protocol}){a.error ? `: ${a.error}` : ""}
+                  </li>
+                ))}
+                <li><span className="label">Active: </span>{formatDuration(summary.activeMs)}</li>
+                <li><span className="label">Total: </span>{formatDuration(summary.totalMs)}</li>
+                {summaryUpload && (
+                  <li className="label">
+                    {summaryUpload === "sent" ? "Sent to reporting endpoint" : `Upload failed: ${summaryUpload}`}
+                  </li>
+                )}
+              </ul>
+            </details>
+          )}
+          {orphan && !mirror && (
+            <div className="card grid gap-8" role="alertdialog" aria-label="Orphaned session">
+              <div className="section-title">Session still running</div>
+              <div className="label">
+                <span className="kbd">{orphan.alias}</span> ({orphan.phase}) was left running by a previous load
+                of this widget at {new Date(orphan.savedAt).toLocaleTimeString()}.
+                {orphan.pinProtected && pinPrompt && " Enter the conference PIN below, then try again."}
+              </div>
+              <div className="row gap-8">
+                <button
+                  type="button"
+                  className="button button-primary"
+                  disabled={orphanBusy}
+                  onClick={() => void resumeOrphan()}
+                >
+                  Resume
+                </button>
+                <button
+                  type="button"
+                  className="button button-secondary"
+                  disabled={orphanBusy}
+                  onClick={() => void endOrphan()}
+                  title="Disconnect everyone in that conference"
+                >
+                  End it
+                </button>
+              </div>
+            </div>
+          )}
 
           {/* Pexip server (toggleable) */}
           {showPexipServer && (
@@ -220,6 +637,22 @@ export default function App() {
             </div>
           )}
 
+          {/* Conference PIN (only after the node rejected/required a PIN) */}
+          {pinPrompt && (
+            <div className="grid">
+              <label className="label" htmlFor="conferencePin">Conference PIN</label>
+              <input
+                id="conferencePin"
+                className="input"
+                type="password"
+                autoComplete="off"
+                value={pinEntry}
+                title="PIN for the Pexip conference"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPinEntry(e.target.value)}
+              />
+            </div>
+          )}
+
           {/* Agent Queue dropdown */}
           <div className="grid">
             <label className="label" htmlFor="agentQueue">Agent Queue</label>
@@ -276,6 +709,28 @@ export default function App() {
                 value={manualAliases}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => setManualAliases(e.target.value)}
               />
+              {manualDestinations.length > 1 && (
+                <div className="row gap-8" role="radiogroup" aria-label="Ring mode">
+                  <label className="label">
+                    <input
+                      type="radio"
+                      name="ringMode"
+                      checked={ringMode === "sequential"}
+                      onChange={() => setRingMode("sequential")}
+                    />{" "}
+                    Try in order
+                  </label>
+                  <label className="label">
+                    <input
+                      type="radio"
+                      name="ringMode"
+                      checked={ringMode === "simultaneous"}
+                      onChange={() => setRingMode("simultaneous")}
+                    />{" "}
+                    Ring all at once
+                  </label>
+                </div>
+              )}
             </div>
           )}
 
@@ -301,26 +756,245 @@ export default function App() {
               <StatusPill phase={phase} />
             </div>
             <div className="label">Current phase: <span className="kbd">{phase}</span></div>
+            {agentWait && (
+              <div className="label" role="timer" aria-live="polite">
+                {agentWait.attempt > 1 ? "Overflow: waiting" : "Waiting"} for an agent on{" "}
+                <span className="kbd">{agentWait.alias}</span>:{" "}
+                {formatCountdown(agentWait.deadline - now)} left
+              </div>
+            )}
+            {leg3Retry && (
+              <div className="label" role="status" aria-live="polite">
+                {LEG_LABELS.leg3} {leg3Retry.mode === "reconnect" ? "reconnect" : "redial"}{" "}
+                {leg3Retry.attempt}/{leg3Retry.maxAttempts}
+                {leg3Retry.exhausted
+                  ? ": gave up"
+                  : leg3Retry.nextAttemptAt
+                  ? ` in ${formatCountdown(leg3Retry.nextAttemptAt - now)}`
+                  : ": dialing…"}
+              </div>
+            )}
+            {conference && (
+              <div className="row gap-6">
+                {conference.locked && <span className="pill">Locked</span>}
+                {conference.guestsMuted && <span className="pill">Guests muted</span>}
+                {conference.layout && <span className="label">Layout <span className="kbd">{conference.layout}</span></span>}
+              </div>
+            )}
+            {phase === "active" && handOffAfterMs !== null && (
+              <div className="label" role="note">
+                This widget hands the call off after {Math.round(handOffAfterMs / 1000)} s without in-call
+                actions; the call continues, but the controls below close then.
+              </div>
+            )}
+            {phase === "active" && (
+              <div className="grid gap-6">
+                <label className="label" htmlFor="layoutPreset">Customer layout</label>
+                <select
+                  id="layoutPreset"
+                  className="select"
+                  title="Conference layout shown on the customer VTC"
+                  value={layoutPresetId}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => void changeLayout(e.target.value)}
+                >
+                  {!layoutPresetId && (
+                    <option value="" disabled>
+                      VMR default
+                    </option>
+                  )}
+                  {MasterVariables.layouts.presets.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
 
           <div className="card grid gap-8">
             <div className="section-title">Roster</div>
+            {error && <div className="card error-card" role="alert">{error}</div>}
             {!roster ? (
               <div className="label">Waiting for events…</div>
             ) : (
               <ul className="grid gap-6">
-                {roster.participants.map((p: Participant) => (
-                  <li key={p.id} className="row">
-                    <span className="pill pill-accent" aria-label={p.kind === "sip" ? "SIP participant" : "WebRTC participant"}>{p.kind}</span>
-                    <span>{p.displayName || p.id}</span>
-                    {!p.isConnected && <em className="label">(ringing)</em>}
-                    {p.isVideo && <span className="label">• video</span>}
+                {roster.participants.map((p: Participant) => {
+                  const leg = orchestrator.legOf(p);
+                  const legLabel = orchestrator.legLabel(p);
+                  const controllable =
+                    p.isConnected && (leg === "leg1" || leg === "leg3" || leg === "extra");
+                  return (
+                    <li key={p.id} className="row">
+                      <span className="pill pill-accent" aria-label={`${p.protocol} participant`}>{p.protocol}</span>
+                      <span>{p.displayName || p.id}</span>
+                      {legLabel && <span className="label">{legLabel}</span>}
+                      {!p.isConnected && <em className="label">(ringing)</em>}
+                      {p.isVideo && <span className="label">• video</span>}
+                      {p.role === "chair" && <span className="label">• host</span>}
+                      {p.isAudioMuted && <span className="label">• muted</span>}
+                      {p.isPresenting && <span className="label">• presenting</span>}
+                      {conference?.activeSpeakerId === p.id && <span className="label">• speaking</span>}
+                      {controllable && (
+                        <span className="row gap-6 roster-actions">
+                          <button
+                            type="button"
+                            className="button button-secondary button-small"
+                            onClick={() => void toggleMute(p)}
+                            title="Mute/unmute this leg's audio"
+                          >
+                            {p.isAudioMuted ? "Unmute" : "Mute"}
+                          </button>
+                          <button
+                            type="button"
+                            className="button button-secondary button-small"
+                            onClick={() => void dropParticipant(p.id)}
+                            title="Disconnect only this leg"
+                          >
+                            Drop
+                          </button>
+                        </span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {phase === "active" && (
+            <div className="card grid gap-8">
+              <div className="section-title">Add participant</div>
+              <input
+                className="input"
+                aria-label="Extra participant destination"
+                placeholder="SIP URI or phone number (e.g. interpreter@lang.example.com)"
+                value={extraDestination}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExtraDestination(e.target.value)}
+              />
+              <div className="row gap-8">
+                <input
+                  className="input"
+                  aria-label="Roster label"
+                  placeholder="Label (e.g. Spanish interpreter)"
+                  value={extraLabel}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExtraLabel(e.target.value)}
+                />
+                <select
+                  className="select"
+                  aria-label="Role"
+                  value={extraRole}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    setExtraRole(e.target.value === "HOST" ? "HOST" : "GUEST")
+                  }
+                >
+                  <option value="GUEST">Guest</option>
+                  <option value="HOST">Host</option>
+                </select>
+                <select
+                  className="select"
+                  aria-label="Call type"
+                  value={extraCallType}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                    setExtraCallType(e.target.value === "audio" ? "audio" : "video")
+                  }
+                >
+                  <option value="video">Video</option>
+                  <option value="audio">Audio only</option>
+                </select>
+                <button
+                  type="button"
+                  className="button button-primary"
+                  disabled={!extraDestination.trim()}
+                  onClick={() => void addExtra()}
+                >
+                  Dial
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="card grid gap-8">
+            <div className="row justify-between">
+              <div className="section-title">Keypad ({LEG_LABELS.leg1})</div>
+              <span className="label">Sent: <span className="kbd">{dtmfSent || "(none)"}</span></span>
+            </div>
+            <div className="keypad" role="group" aria-label="DTMF keypad">
+              {KEYPAD_KEYS.map((k) => (
+                <button
+                  key={k}
+                  type="button"
+                  className="button button-secondary"
+                  onClick={() => void pressKey(k)}
+                  title={`Send DTMF ${k}`}
+                >
+                  {k}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="card grid gap-8">
+            <div className="section-title">Chat</div>
+            {messages.length === 0 ? (
+              <div className="label">No messages yet.</div>
+            ) : (
+              <ul className="grid gap-6 chat-log" aria-live="polite">
+                {messages.map((m) => (
+                  <li key={m.id} className={m.direction === "out" ? "chat-out" : "chat-in"}>
+                    <span className="label">{m.origin}: </span>
+                    <span>{m.text}</span>
                   </li>
                 ))}
               </ul>
             )}
+            <div className="row gap-8">
+              {MasterVariables.chat.quickReplies.map((q) => (
+                <button
+                  key={q}
+                  type="button"
+                  className="button button-secondary button-small"
+                  onClick={() => void sendChat(q)}
+                  title="Send this message to the conference"
+                >
+                  {q}
+                </button>
+              ))}
+            </div>
+            <form
+              className="row gap-8"
+              onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+                e.preventDefault();
+                void sendChat(chatDraft);
+              }}
+            >
+              <input
+                className="input"
+                aria-label="Chat message"
+                placeholder="Message to the room…"
+                value={chatDraft}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setChatDraft(e.target.value)}
+              />
+              <button type="submit" className="button button-primary" disabled={!chatDraft.trim()}>
+                Send
+              </button>
+            </form>
           </div>
 
+          <details className="card grid gap-8">
+            <summary className="section-title">Timeline</summary>
+            <ul className="grid gap-6 timeline-log">
+              {timeline.map((t, i) => (
+                <li key={`${t.at}-${i}`}>
+                  <span className="kbd">{new Date(t.at).toLocaleTimeString()}</span>{" "}
+                  <span className="label">{t.scope === "phase" ? "Phase" : LEG_LABELS[t.scope]}: </span>
+                  <span>{t.from} → {t.to}</span>
+                  {t.reason && <span className="label"> ({t.reason})</span>}
+                </li>
+              ))}
+            </ul>
+          </details>
+
           <div className="row gap-8">
             <button type="button" className="button button-secondary" onClick={() => orchestrator.stop()}>
               Reset (soft)
@@ -29,6 +29,13 @@ function hasAuthToken(c: unknown): boolean {
   return typeof token === "string" && token.length > 0;
 }
 
+/** Current Genesys access token (e.g. for the Pexip proxy), if logged in. */
+export function getGenesysAccessToken(): string | undefined {
+  const maybe = client as unknown as MaybeTokenClient;
+  const token = typeof maybe.getAuthToken === "function" ? maybe.getAuthToken() : undefined;
+  return typeof token === "string" && token.length > 0 ? token : undefined;
+}
+
 /** Log in via implicit grant (no-op if already authenticated). */
 export async function loginGenesys(): Promise<void> {
   client.setEnvironment(MasterVariables.genesys.cloudRegion);
@@ -0,0 +1,272 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/leg3Resolver.ts
+// Leg 3 destination resolver: turns what the user typed (SIP URI, E.164 number,
+// H.323 IP, Teams CVI alias, short room ID) into an ordered list of dial
+// candidates, each with an explicit protocol. Resolvers run in configured order;
+// the first one that recognises the input decides the candidates. Several
+// destinations (a branch's primary and backup room system) form a ring group.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import type { DialProtocol } from "./types";
+
+export type Leg3Format = "h323" | "teams_cvi" | "sip_uri" | "e164" | "room_id";
+
+export const LEG3_FORMATS: Leg3Format[] = ["h323", "teams_cvi", "sip_uri", "e164", "room_id"];
+
+export type Leg3Candidate = {
+  destination: string;
+  protocol: DialProtocol;
+  format: Leg3Format;
+};
+
+export type Leg3ResolverOptions = {
+  /** resolver order; formats left out are disabled (default LEG3_FORMATS) */
+  formats?: Leg3Format[];
+  /** domain appended to short room IDs (e.g. "vc.example.com") */
+  sipDomain?: string;
+  /** SIP domain of the Teams CVI gateway; addresses in it are dialed as CVI */
+  cviDomain?: string;
+  /** SIP domain that routes E.164 numbers to a PSTN gateway */
+  e164Domain?: string;
+};
+
+/**
+ * null = input is not this format (try the next resolver);
+ * { error } = input is this format but invalid (stop, report the reason).
+ */
+export type Leg3ResolverResult = { candidates: Leg3Candidate[] } | { error: string } | null;
+
+export type Leg3Resolver = (input: string, opts: Leg3ResolverOptions) => Leg3ResolverResult;
+
+export type Leg3Resolution = {
+  input: string;
+  format: Leg3Format;
+  candidates: Leg3Candidate[];
+};
+
+/** One dial attempt and its outcome (for logs and the aggregated error). */
+export type Leg3Attempt = {
+  candidate: Leg3Candidate;
+  participantId?: string;
+  error?: string;
+};
+
+/**
+ * How a ring group reaches several destinations: "sequential" hunts them in
+ * order, "simultaneous" rings all at once. The first to connect wins and the
+ * other calls are cancelled.
+ */
+export type Leg3RingMode = "sequential" | "simultaneous";
+
+export type Leg3RingGroup = {
+  /** in hunt order; the first one is also StartParams.secondDialAlias */
+  destinations: string[];
+  mode: Leg3RingMode;
+  /** sequential: how long an endpoint may ring before the next one is tried (0 = node default) */
+  huntTimeoutMs?: number;
+};
+
+/** One ring-group call, tracked by the participant UUID the node created for it. */
+export type Leg3RingAttempt = {
+  participantId: string;
+  destination: string;
+  candidate: Leg3Candidate;
+  state: "ringing" | "connected" | "cancelled" | "failed";
+  startedAt: number;
+  endedAt?: number;
+  reason?: string;
+};
+
+/** Leg 3 could not be resolved or every candidate failed; `attempts` holds each reason. */
+export class Leg3DialError extends Error {
+  readonly attempts: Leg3Attempt[];
+
+  constructor(message: string, attempts: Leg3Attempt[] = []) {
+    super(message);
+    this.name = "Leg3DialError";
+    this.attempts = attempts;
+  }
+}
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const E164 = /^\+[1-9]\d{6,14}$/;
+const ROOM_ID = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+const SIP_USER_HOST = /^[^\s@]+@[A-Za-z0-9.-]+(:\d+)?$/;
+// Teams CVI dial string: <tenant key>.<VTC conference ID>[..<tenant id>]@<domain>
+const CVI_USER = /^\d{6,12}\.\d{6,12}(\.\.[A-Za-z0-9-]+)?$/;
+
+function validIpv4(host: string): boolean {
+  const m = host.match(IPV4);
+  return !!m && m.slice(1).every((o) => Number(o) <= 255);
+}
+
+function stripSip(v: string): string {
+  return v.replace(/^sips?:/i, "");
+}
+
+function normDomain(d?: string): string | undefined {
+  const v = (d ?? "").trim().replace(/^@/, "").toLowerCase();
+  return v || undefined;
+}
+
+/**
+ * "h323:1234@10.0.0.5", "10.0.0.5" or "1234@10.0.0.5" (H.323 first, SIP fallback).
+ * An explicit "sip:"/"sips:" URI is left to the SIP resolver.
+ */
+const h323Resolver: Leg3Resolver = (input) => {
+  if (/^sips?:/i.test(input)) return null;
+  const explicit = /^h323:/i.test(input);
+  const body = explicit ? input.slice(5) : input;
+  const at = body.lastIndexOf("@");
+  const host = at >= 0 ? body.slice(at + 1) : body;
+  const looksIp = IPV4.test(host);
+
+  if (!explicit && !looksIp) return null;
+  if (looksIp && !validIpv4(host)) return { error: `"${host}" is not a valid IPv4 address` };
+  if (!body || at === 0) return { error: `"${input}" has no H.323 address` };
+
+  const candidates: Leg3Candidate[] = [{ destination: body, protocol: "h323", format: "h323" }];
+  if (!explicit) candidates.push({ destination: `sip:${body}`, protocol: "sip", format: "h323" });
+  return { candidates };
+};
+
+/** Teams CVI: "<tenant>.<conf id>@domain", or any address in the configured CVI domain. */
+const teamsCviResolver: Leg3Resolver = (input, opts) => {
+  const body = stripSip(input);
+  const at = body.lastIndexOf("@");
+  const cviDomain = normDomain(opts.cviDomain);
+
+  if (at < 0) {
+    // bare "<tenant>.<conf id>" only makes sense with a configured CVI domain
+    if (!CVI_USER.test(body)) return null;
+    if (!cviDomain) return { error: `"${body}" looks like a Teams CVI ID but no CVI domain is configured` };
+    return { candidates: [{ destination: `sip:${body}@${cviDomain}`, protocol: "sip", format: "teams_cvi" }] };
+  }
+
+  const user = body.slice(0, at);
+  const domain = body.slice(at + 1).toLowerCase();
+  if (!CVI_USER.test(user) && !(cviDomain && domain === cviDomain)) return null;
+  if (!SIP_USER_HOST.test(body)) return { error: `"${input}" is not a valid Teams CVI address` };
+  return { candidates: [{ destination: `sip:${user}@${domain}`, protocol: "sip", format: "teams_cvi" }] };
+};
+
+/** "sip:user@host" or "user@host" (raw first, then the other form, routed by the node) */
+const sipUriResolver: Leg3Resolver = (input) => {
+  const hasScheme = /^sips?:/i.test(input);
+  if (!hasScheme && !input.includes("@")) return null;
+
+  const body = stripSip(input);
+  if (!SIP_USER_HOST.test(body)) return { error: `"${input}" is not a valid SIP URI` };
+
+  const other = hasScheme ? body : `sip:${body}`;
+  return {
+    candidates: [
+      { destination: input, protocol: "auto", format: "sip_uri" },
+      { destination: other, protocol: "auto", format: "sip_uri" },
+    ],
+  };
+};
+
+/** "+1 (555) 010-2000" -> "+15550102000"; via the E.164 gateway domain when configured */
+const e164Resolver: Leg3Resolver = (input, opts) => {
+  if (!/^\+/.test(input)) return null;
+  const number = input.replace(/[\s().-]/g, "");
+  if (!E164.test(number)) return { error: `"${input}" is not a valid E.164 number` };
+
+  const domain = normDomain(opts.e164Domain);
+  const candidates: Leg3Candidate[] = [];
+  if (domain) candidates.push({ destination: `sip:${number}@${domain}`, protocol: "sip", format: "e164" });
+  candidates.push({ destination: number, protocol: "auto", format: "e164" });
+  return { candidates };
+};
+
+/** Short room ID / VMR number: qualified with the SIP domain when configured, then raw. */
+const roomIdResolver: Leg3Resolver = (input, opts) => {
+  if (!ROOM_ID.test(input)) {
+    return { error: `"${input}" is not a recognised room ID, SIP URI, E.164 number or H.323 address` };
+  }
+  const domain = normDomain(opts.sipDomain);
+  const candidates: Leg3Candidate[] = [];
+  if (domain) {
+    candidates.push({ destination: `${input}@${domain}`, protocol: "auto", format: "room_id" });
+    candidates.push({ destination: `sip:${input}@${domain}`, protocol: "sip", format: "room_id" });
+  }
+  candidates.push({ destination: input, protocol: "auto", format: "room_id" });
+  candidates.push({ destination: `sip:${input}`, protocol: "auto", format: "room_id" });
+  return { candidates };
+};
+
+const RESOLVERS: Record<Leg3Format, Leg3Resolver> = {
+  h323: h323Resolver,
+  teams_cvi: teamsCviResolver,
+  sip_uri: sipUriResolver,
+  e164: e164Resolver,
+  room_id: roomIdResolver,
+};
+
+/** Parse a comma-separated format list (unknown names are dropped, order is kept). */
+export function parseLeg3Formats(raw: string): Leg3Format[] | undefined {
+  const formats = raw
+    .split(",")
+    .map((f) => f.trim().toLowerCase())
+    .filter((f): f is Leg3Format => (LEG3_FORMATS as string[]).includes(f));
+  return formats.length ? formats : undefined;
+}
+
+export function parseLeg3RingMode(raw: string): Leg3RingMode {
+  return raw.trim().toLowerCase() === "simultaneous" ? "simultaneous" : "sequential";
+}
+
+/** Split a comma-separated destination list, dropping blanks and repeats (first one wins). */
+export function parseLeg3Destinations(raw: string): string[] {
+  const seen = new Set<string>();
+  return raw
+    .split(",")
+    .map((d) => d.trim())
+    .filter((d) => {
+      const key = d.toLowerCase();
+      if (!d || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Resolve a Leg 3 destination into ordered candidates.
+ * `protocolOverride` (anything but "auto") forces one protocol on every candidate.
+ * Throws Leg3DialError when the input is empty, invalid or matches no enabled format.
+ */
+export function resolveLeg3Destination(
+  raw: string,
+  opts: Leg3ResolverOptions = {},
+  protocolOverride?: DialProtocol
+): Leg3Resolution {
+  const input = raw.trim();
+  if (!input) throw new Leg3DialError("No Leg 3 destination was provided.");
+
+  for (const format of opts.formats ?? LEG3_FORMATS) {
+    const result = RESOLVERS[format](input, opts);
+    if (!result) continue;
+    if ("error" in result) throw new Leg3DialError(`Leg 3 destination rejected (${format}): ${result.error}`);
+
+    const seen = new Set<string>();
+    const candidates = result.candidates
+      .map((c) => (protocolOverride && protocolOverride !== "auto" ? { ...c, protocol: protocolOverride } : c))
+      .filter((c) => {
+        const key = `${c.protocol}|${c.destination.toLowerCase()}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    return { input, format, candidates };
+  }
+
+  throw new Leg3DialError(`Leg 3 destination "${input}" does not match any enabled format.`);
+}
+
+/** One line per failed attempt, for the surfaced error. */
+export function describeLeg3Attempts(attempts: Leg3Attempt[]): string {
+  return attempts
+    .map((a, i) => `${i + 1}. ${a.candidate.destination} (${a.candidate.protocol}): ${a.error ?? "no participant created"}`)
+    .join("\n");
+}
@@ -0,0 +1,122 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/lifecyclePolicy.ts
+// Session lifecycle policy: the presence rules the Orchestrator applies on every
+// roster update (SSE grace, "min two", agent drop, Leg 0 retirement, idle stop)
+// and the Leg 3 redial budget, expressed as data so each line of business can
+// pick a profile from config.
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * What a terminating rule does:
+ * - "end_conference": disconnect every participant (disconnect_all)
+ * - "end_widget": release our token and stop; the conference keeps running
+ */
+export type LifecycleAction = "end_conference" | "end_widget";
+
+export type LifecyclePolicy = {
+  /** profile id, reported in every decision */
+  id: string;
+  /** after the connected count drops to 0, ignore presence rules this long (SSE hiccups) */
+  sseGraceMs: number;
+  /** once 2 core legs were connected, act when fewer remain for `afterMs` */
+  minTwo: { enabled: boolean; afterMs: number; action: LifecycleAction };
+  /** once all 4 legs were up for `armAfterMs`, act when Leg 1 or Leg 2 drops */
+  agentDrop: { enabled: boolean; armAfterMs: number; action: LifecycleAction };
+  /** release Leg 0 (our API token) after all 4 legs were stable for `afterMs` */
+  leg0Retirement: { enabled: boolean; afterMs: number };
+  /** stop watching when nothing has been connected for `afterMs` */
+  idleStop: { enabled: boolean; afterMs: number };
+  /**
+   * Leg 3 redial budget, shared by failed initial dials and (with `reconnect`) a
+   * customer VTC that drops mid-call while the agent is still up. Delays double
+   * from `baseDelayMs` up to `maxDelayMs`; `action` applies once a reconnect runs out.
+   * A reconnect needs Leg 0 (the roster): a profile turning `reconnect` on should
+   * also disable `leg0Retirement`, else drops after the hand-off go unnoticed.
+   */
+  leg3Retry: {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    reconnect: boolean;
+    action: LifecycleAction;
+  };
+};
+
+export type LifecyclePolicyOverrides = {
+  sseGraceMs?: number;
+  minTwo?: Partial<LifecyclePolicy["minTwo"]>;
+  agentDrop?: Partial<LifecyclePolicy["agentDrop"]>;
+  leg0Retirement?: Partial<LifecyclePolicy["leg0Retirement"]>;
+  idleStop?: Partial<LifecyclePolicy["idleStop"]>;
+  leg3Retry?: Partial<LifecyclePolicy["leg3Retry"]>;
+};
+
+export type LifecycleRule =
+  | "min_two"
+  | "agent_drop"
+  | "leg0_retirement"
+  | "idle_stop"
+  | "server_disconnect"
+  | "agent_answer_timeout"
+  | "leg3_reconnect";
+
+/** One rule decision; terminal outcomes explain why the session ended. */
+export type LifecycleDecision = {
+  rule: LifecycleRule;
+  /** "armed" and "overflow" (Leg 1 redialed elsewhere) keep the session going */
+  outcome: "armed" | "overflow" | LifecycleAction | "stop";
+  reason: string;
+  profile: string;
+  at: number;
+};
+
+/** True when the decision ended (or handed off) the session. */
+export function isTerminalDecision(d: LifecycleDecision): boolean {
+  return d.outcome !== "armed" && d.outcome !== "overflow";
+}
+
+/** The behaviour the widget has always had. */
+export const DEFAULT_LIFECYCLE_POLICY: LifecyclePolicy = {
+  id: "default",
+  sseGraceMs: 8000,
+  minTwo: { enabled: true, afterMs: 1500, action: "end_conference" },
+  agentDrop: { enabled: true, armAfterMs: 20_000, action: "end_conference" },
+  leg0Retirement: { enabled: true, afterMs: 8000 },
+  idleStop: { enabled: true, afterMs: 3000 },
+  leg3Retry: {
+    maxAttempts: 5,
+    baseDelayMs: 2500,
+    maxDelayMs: 30_000,
+    reconnect: false,
+    action: "end_conference",
+  },
+};
+
+/** Merge a profile's overrides over the default policy. */
+export function buildLifecyclePolicy(id: string, overrides: LifecyclePolicyOverrides = {}): LifecyclePolicy {
+  const d = DEFAULT_LIFECYCLE_POLICY;
+  return {
+    id,
+    sseGraceMs: overrides.sseGraceMs ?? d.sseGraceMs,
+    minTwo: { ...d.minTwo, ...overrides.minTwo },
+    agentDrop: { ...d.agentDrop, ...overrides.agentDrop },
+    leg0Retirement: { ...d.leg0Retirement, ...overrides.leg0Retirement },
+    idleStop: { ...d.idleStop, ...overrides.idleStop },
+    leg3Retry: { ...d.leg3Retry, ...overrides.leg3Retry },
+  };
+}
+
+/** Pick a profile by id; unknown ids fall back to the default policy (with a warning). */
+export function resolveLifecyclePolicy(
+  profiles: Record<string, LifecyclePolicyOverrides>,
+  id: string
+): LifecyclePolicy {
+  const overrides = profiles[id];
+  if (!overrides) {
+    if (id !== DEFAULT_LIFECYCLE_POLICY.id) {
+      console.warn("[agent-dial]", `unknown lifecycle profile "${id}", using default`);
+    }
+    return DEFAULT_LIFECYCLE_POLICY;
+  }
+  return buildLifecyclePolicy(id, overrides);
+}
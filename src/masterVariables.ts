@@ -2,18 +2,100 @@
 // File: masterVariables.ts
 // ───────────────────────────────────────────────────────────────────────────────
 
+import type { DialProtocol, LayoutPreset } from "./types";
+import { parseLeg3Formats, parseLeg3RingMode } from "./leg3Resolver";
+import type { SSETransportKind } from "./sseTransport";
+import type { LifecyclePolicyOverrides } from "./lifecyclePolicy";
+
+// lifecycle profiles: overrides merged over DEFAULT_LIFECYCLE_POLICY (lifecyclePolicy.ts)
+const lifecycleProfiles: Record<string, LifecyclePolicyOverrides> = {
+  default: {},
+  // keep our API token for the whole call (no Leg 0 hand-off)
+  "keep-leg0": { leg0Retirement: { enabled: false } },
+  // redial the customer VTC when it drops mid-call; needs Leg 0 for the whole call
+  reconnect: { leg0Retirement: { enabled: false }, leg3Retry: { reconnect: true } },
+  // agent dropping must not end the customer's call: release the widget only
+  "agent-drop-keep-alive": { agentDrop: { action: "end_widget" } },
+};
+
+const layoutPresets: LayoutPreset[] = [
+  {
+    id: "agent-full",
+    label: "1:1 agent full-screen",
+    transform: { layout: "1:0", enableOverlayText: false },
+  },
+  {
+    id: "side-by-side",
+    label: "Side-by-side",
+    transform: { layout: "2:21", enableOverlayText: true },
+  },
+  {
+    id: "speaker-thumbs",
+    label: "Speaker + thumbnails",
+    transform: { layout: "1:7", enableOverlayText: true },
+  },
+];
+
 export const MasterVariables = {
   // Pexip API (Client/Conference Node) used to initiate sessions and make API calls
   pexip: {
     nodeUrl: import.meta.env.VITE_PEXIP_NODE_URL || "https://your-pexip-node.example.com",
+    // true when nodeUrl points at server/pexipProxy.ts (sends the Genesys bearer)
+    useProxy: import.meta.env.VITE_PEXIP_USE_PROXY === "true" || false,
+    // SSE transport: "eventsource" (token in URL) or "fetch" (token header, Last-Event-ID resume);
+    // always "fetch" behind the proxy, so the Genesys bearer never ends up in a URL
+    sseTransport: (import.meta.env.VITE_PEXIP_USE_PROXY === "true" || import.meta.env.VITE_PEXIP_SSE_TRANSPORT === "fetch"
+      ? "fetch"
+      : "eventsource") as SSETransportKind,
+    // optional failover nodes, comma-separated in priority order
+    failoverNodes: (import.meta.env.VITE_PEXIP_FAILOVER_NODE_URLS || "")
+      .split(",")
+      .map((u: string) => u.trim())
+      .filter(Boolean)
+      .map((url: string, i: number) => ({ url, priority: i + 1 })),
+  },
+
+  // optional recording/streaming leg (RTMP), dialed once the call is active
+  recording: {
+    rtmpUrl: import.meta.env.VITE_RECORDING_RTMP_URL || "",
+  },
+
+  // end-of-call SessionSummary upload (operational reports); empty url = shown in the UI only
+  reporting: {
+    summaryUrl: import.meta.env.VITE_SESSION_SUMMARY_URL || "",
+    // send the Genesys access token (Genesys Cloud webhook / data action endpoints)
+    summaryGenesysAuth: import.meta.env.VITE_SESSION_SUMMARY_GENESYS_AUTH === "true" || false,
   },
 
   // where the conference dials first (SIP, audio-only)
   dialPlan: {
     contactCenterAlias: import.meta.env.VITE_CONTACT_CENTER_ALIAS || "+1234567890@example.cloud",
     role: "HOST" as const,
-    protocol: "sip" as const,
+    // "auto" lets node routing rules decide; set sip/h323/mssip to force a protocol
+    protocol: (import.meta.env.VITE_CONTACT_CENTER_PROTOCOL || "auto") as DialProtocol,
     callType: "audio" as const,
+    // optional IVR digits for Leg 1, e.g. "2000:1,1500:3#" (delayMs:digits, comma-separated)
+    leg1Dtmf: import.meta.env.VITE_CONTACT_CENTER_DTMF || "",
+    // give up on the agent (Leg 1 + Leg 2) after this long; 0 = wait forever
+    agentAnswerTimeoutMs: Number(import.meta.env.VITE_AGENT_ANSWER_TIMEOUT_MS || 120_000) || 0,
+    // optional alias Leg 1 is redialed to once when the answer timeout expires
+    overflowAlias: import.meta.env.VITE_CONTACT_CENTER_OVERFLOW_ALIAS || "",
+  },
+
+  // how the Leg 3 destination (customer VTC) is turned into dial candidates
+  leg3: {
+    // resolver order, e.g. "h323,teams_cvi,sip_uri,e164,room_id" (empty = all, in that order)
+    formats: parseLeg3Formats(import.meta.env.VITE_LEG3_FORMATS || ""),
+    // domain appended to short room IDs, e.g. "vc.example.com"
+    sipDomain: import.meta.env.VITE_LEG3_SIP_DOMAIN || "",
+    // Teams CVI gateway domain, e.g. "t.plcm.vc"
+    cviDomain: import.meta.env.VITE_LEG3_CVI_DOMAIN || "",
+    // SIP domain that routes E.164 numbers to a PSTN gateway
+    e164Domain: import.meta.env.VITE_LEG3_E164_DOMAIN || "",
+    // several manual aliases form a ring group: "sequential" (hunt) or "simultaneous"
+    ringMode: parseLeg3RingMode(import.meta.env.VITE_LEG3_RING_MODE || ""),
+    // sequential hunt: how long each endpoint rings before the next is tried (0 = node default)
+    huntTimeoutMs: Number(import.meta.env.VITE_LEG3_HUNT_TIMEOUT_MS || 20_000) || 0,
   },
 
   // Genesys Cloud environment where the widget is hosted
@@ -63,6 +145,27 @@ export const MasterVariables = {
     externalDeviceDisplayName: import.meta.env.VITE_EXTERNAL_DEVICE_NAME || "Genesys Widget",
   },
 
+  // in-call chat quick replies (sent to the conference with one click)
+  chat: {
+    quickReplies: [
+      "Your advisor will join shortly.",
+      "Thank you for waiting.",
+    ],
+  },
+
+  // session lifecycle rules; pick a profile per line of business
+  lifecycle: {
+    profile: import.meta.env.VITE_LIFECYCLE_PROFILE || "default",
+    profiles: lifecycleProfiles,
+  },
+
+  // conference layout presets; `defaultPreset` is applied when the call becomes active
+  // (empty/unset = leave the VMR default layout alone)
+  layouts: {
+    presets: layoutPresets,
+    defaultPreset: (import.meta.env.VITE_LAYOUT_PRESET ?? "").trim(),
+  },
+
   // name of the hosting folder for the compiled app
   basePath: import.meta.env.VITE_BASE_PATH || "/",
 
@@ -4,14 +4,54 @@
 // ───────────────────────────────────────────────────────────────────────────────
 
 import type {
+  AgentAnswerWait,
+  CallLeg,
+  ChatMessage,
+  ConferenceState,
+  DialProtocol,
+  DtmfStep,
+  ExtraLeg,
+  LayoutPreset,
+  Leg3RetryState,
+  LegState,
   OrchestratorPhase,
+  ParticipantChanged,
+  ParticipantJoined,
+  ParticipantLeft,
   PexipConfig,
+  RosterDelta,
   RosterSnapshot,
+  SessionSummary,
   StartParams,
   Participant,
+  TimelineEntry,
 } from "./types";
-import { PexipClient } from "./pexipClient";
+import { PexipClient, type ParticipantRole } from "./pexipClient";
 import { PexipSSE } from "./sse";
+import { diffParticipant, diffRoster, hasChanges } from "./rosterDelta";
+import { isSignalledCall, participantsFromResponse, rosterCounts } from "./participants";
+import { isPexipError } from "./pexipErrors";
+import type { TokenRotation } from "./tokenManager";
+import { PhaseMachine } from "./phaseMachine";
+import { SessionMetrics } from "./sessionMetrics";
+import { clearSession, saveSession, type PersistedSession } from "./sessionStore";
+import {
+  DEFAULT_LIFECYCLE_POLICY,
+  type LifecycleAction,
+  type LifecycleDecision,
+  type LifecyclePolicy,
+  type LifecycleRule,
+} from "./lifecyclePolicy";
+import {
+  Leg3DialError,
+  describeLeg3Attempts,
+  resolveLeg3Destination,
+  type Leg3Attempt,
+  type Leg3Candidate,
+  type Leg3Resolution,
+  type Leg3RingAttempt,
+  type Leg3RingMode,
+} from "./leg3Resolver";
 
 type KeepConferenceAliveMode =
   | "keep_conference_alive"
@@ -23,6 +63,16 @@ type EventPayloads = {
   roster: RosterSnapshot;
   active: { active: boolean; roster: RosterSnapshot };
   error: Error;
+  message: ChatMessage;
+  conference: ConferenceState;
+  participantJoined: ParticipantJoined;
+  participantLeft: ParticipantLeft;
+  participantChanged: ParticipantChanged;
+  lifecycle: LifecycleDecision;
+  timeline: TimelineEntry;
+  agentWait: AgentAnswerWait | null;
+  leg3Retry: Leg3RetryState | null;
+  summary: SessionSummary;
 };
 type EventKey = keyof EventPayloads;
 type ListenerFn<K extends EventKey> = (p: EventPayloads[K]) => void;
@@ -32,85 +82,68 @@ type ListenerSets = {
   roster: Set<ListenerFn<"roster">>;
   active: Set<ListenerFn<"active">>;
   error: Set<ListenerFn<"error">>;
+  message: Set<ListenerFn<"message">>;
+  conference: Set<ListenerFn<"conference">>;
+  participantJoined: Set<ListenerFn<"participantJoined">>;
+  participantLeft: Set<ListenerFn<"participantLeft">>;
+  participantChanged: Set<ListenerFn<"participantChanged">>;
+  lifecycle: Set<ListenerFn<"lifecycle">>;
+  timeline: Set<ListenerFn<"timeline">>;
+  agentWait: Set<ListenerFn<"agentWait">>;
+  leg3Retry: Set<ListenerFn<"leg3Retry">>;
+  summary: Set<ListenerFn<"summary">>;
 };
 
-function normAlias(s: string): string {
-  return s.trim().toLowerCase().replace(/^sip:/, "");
-}
-function matchesSipAlias(p: Participant, alias: string): boolean {
-  if (p.kind !== "sip") return false;
-  const dn = (p.displayName ?? "").toString();
-  if (!dn) return false;
-  return normAlias(dn).includes(normAlias(alias));
-}
+/** Human-readable leg names for logs, errors and the roster UI. */
+export const LEG_LABELS: Record<CallLeg, string> = {
+  leg0: "Leg 0 (API)",
+  leg1: "Leg 1 (contact center)",
+  leg2: "Leg 2 (agent)",
+  leg3: "Leg 3 (customer VTC)",
+  recording: "Recording",
+  extra: "Extra participant",
+};
 
-// ------- minimal local mappers (no any) -------
-function toBool(v: unknown): boolean {
-  if (typeof v === "boolean") return v;
-  if (typeof v === "number") return v !== 0;
-  if (typeof v === "string") {
-    const s = v.toLowerCase();
-    return s === "1" || s === "true" || s === "yes" || s === "on";
+const DTMF_DIGITS = /^[0-9*#A-D]+$/i;
+
+/**
+ * Parse a DTMF sequence string such as "2000:1,1500:3#" into steps.
+ * Each comma-separated entry is `delayMs:digits` or just `digits` (no delay).
+ */
+export function parseDtmfSequence(raw: string): DtmfStep[] {
+  const steps: DtmfStep[] = [];
+  for (const part of raw.split(",")) {
+    const entry = part.trim();
+    if (!entry) continue;
+    const m = entry.match(/^(\d+):(.+)$/);
+    const digits = (m ? m[2] : entry).trim();
+    if (!DTMF_DIGITS.test(digits)) {
+      console.warn("[agent-dial]", "ignoring invalid DTMF step", entry);
+      continue;
+    }
+    steps.push(m ? { digits, delayMs: Number(m[1]) } : { digits });
   }
-  return false;
-}
-function getString(v: unknown): string | undefined {
-  return typeof v === "string" && v.length > 0 ? v : undefined;
-}
-function isRecord(v: unknown): v is Record<string, unknown> {
-  return typeof v === "object" && v !== null;
+  return steps;
 }
-function hasMediaType(list: unknown, type: "audio" | "video"): boolean {
-  if (!Array.isArray(list)) return false;
-  return list.some((item) => isRecord(item) && getString(item["type"])?.toLowerCase() === type);
+
+function normAlias(s: string): string {
+  return s.trim().toLowerCase().replace(/^sip:/, "");
 }
-function mapRawParticipant(r: Record<string, unknown>): Participant | null {
-  const id =
-    getString(r["participant_uuid"]) ||
-    getString(r["uuid"]) ||
-    getString(r["id"]);
-  if (!id) return null;
-
-  const displayName =
-    getString(r["display_name"]) ||
-    getString(r["name"]) ||
-    getString(r["participant_name"]);
-
-  const proto = getString(r["protocol"])?.toLowerCase();
-  const kind: Participant["kind"] =
-    proto === "webrtc" || proto === "web" || proto === "browser"
-      ? "webrtc"
-      : proto === "sip" || proto === "sips"
-      ? "sip"
-      : "other";
-
-  const isConnected =
-    toBool(r["is_connected"]) ||
-    toBool(r["connected"]) ||
-    (r["is_connected"] === undefined && r["connected"] === undefined);
-
-  const hasVideo =
-    toBool(r["has_video"]) ||
-    toBool(r["video"]) ||
-    toBool(r["is_video"]) ||
-    hasMediaType(r["streams"], "video") ||
-    hasMediaType(r["media"], "video");
-
-  return { id, displayName, kind, isConnected, isVideo: hasVideo };
+/** Does a dialed call (SIP/H.323/MS-SIP/Teams) belong to `alias`, by display name or remote URI? */
+function matchesSipAlias(p: Participant, alias: string): boolean {
+  if (!isSignalledCall(p)) return false;
+  const target = normAlias(alias);
+  if (!target) return false;
+  return [p.displayName, p.uri].some((v) => !!v && normAlias(v).includes(target));
 }
 
 // Expose a typed window shim instead of any
 declare global {
   interface Window {
     __agentDial?: {
-      getState: () => {
-        alias: string | null;
-        token: string | null;
-        phase: OrchestratorPhase;
-        leg3Dialed: boolean;
-        agentReady: boolean;
-        stopped: boolean;
-      };
+      getState: () => ReturnType<Orchestrator["getDebugState"]>;
+      /** phase + leg sub-state timeline of the current session */
+      getHistory: () => TimelineEntry[];
     };
   }
 }
@@ -126,9 +159,49 @@ export class Orchestrator {
     roster: new Set(),
     active: new Set(),
     error: new Set(),
+    message: new Set(),
+    conference: new Set(),
+    participantJoined: new Set(),
+    participantLeft: new Set(),
+    participantChanged: new Set(),
+    lifecycle: new Set(),
+    timeline: new Set(),
+    agentWait: new Set(),
+    leg3Retry: new Set(),
+    summary: new Set(),
   };
 
-  private phase: OrchestratorPhase = "idle";
+  // phase + per-leg sub-states with a timestamped timeline (see phaseMachine.ts)
+  private machine = new PhaseMachine(
+    (_from, to) => this.phaseGuard(to),
+    (entry) => {
+      this.metrics.record(entry);
+      this.emit("timeline", entry);
+    }
+  );
+
+  // per-session metrics, emitted as one "summary" when the session ends
+  private metrics = new SessionMetrics();
+
+  // last roster seen (for per-leg call control)
+  private lastRoster: RosterSnapshot | null = null;
+
+  // participants as last reported through delta events (SSE and REST reconcile here)
+  private participantView = new Map<string, Participant>();
+
+  // last conference state from SSE (lock, guest mute, layout, active speaker)
+  private conferenceState: ConferenceState | null = null;
+
+  // reason given by the node when it ended our session (SSE `disconnect`)
+  private serverDisconnectReason: string | null = null;
+
+  // participant UUIDs returned by /dial, keyed by leg
+  private legUuids: Partial<Record<CallLeg, string>> = {};
+
+  // ad-hoc participants (interpreter, specialist) keyed by participant UUID,
+  // plus destinations still being dialed (no UUID yet)
+  private extraLegs = new Map<string, ExtraLeg>();
+  private pendingExtraDestinations = new Set<string>();
 
   // remember params for resume/retry
   private lastStartParams: StartParams | null = null;
@@ -151,21 +224,62 @@ export class Orchestrator {
   private fullyEngagedSince: number | null = null;
   private killOnAgentDropArmed = false;
 
-  // Leg 3 retry
-  private pendingLeg3Retry?: number;
+  // layout preset currently applied (by id)
+  private layoutPresetId: string | null = null;
+
+  // recording/streaming leg (dialed once per session when active)
+  private recordingDialed = false;
+
+  // Leg 1 IVR digits (played once per session)
+  private leg1DtmfPlayed = false;
+
+  // Leg 3 redial budget (initial routing failures and mid-call reconnects)
+  private leg3Retry: Leg3RetryState | null = null;
+  private leg3RetryTimer?: number;
+
+  // Leg 3 candidates tried in the last attempt, and the one that created the participant
+  private leg3Attempts: Leg3Attempt[] = [];
+  private leg3Candidate: Leg3Candidate | null = null;
+
+  // Leg 3 ring group: every call placed for the current dial (by participant UUID)
+  // and, for a sequential hunt, the destinations still to try
+  private leg3Ring = new Map<string, Leg3RingAttempt>();
+  private leg3Hunt: { queue: string[]; known: Leg3Candidate | null; timeoutMs: number; timer?: number } | null =
+    null;
+
+  // lifecycle rules for this session (see lifecyclePolicy.ts) and their decisions
+  private policy: LifecyclePolicy = DEFAULT_LIFECYCLE_POLICY;
+  private decisions: LifecycleDecision[] = [];
+
+  // expiry of the current token (persisted for re-attach after a reload)
+  private tokenExpiresAt = 0;
+
+  // agent-answer wait: the alias Leg 1 is currently dialed to and its deadline
+  private leg1Alias: string | null = null;
+  private agentWait: AgentAnswerWait | null = null;
+  private agentAnswerTimer?: number;
 
   // Leg 0 retirement controls
   private leg0Retired = false;
-  private retireAfterMs = 8000; // stabilization window after all 4 legs are up
   private fourLegsSince: number | null = null;
+  // last in-call command from the operator (holds Leg 0 retirement, see onRoster)
+  private lastControlAt: number | null = null;
 
   constructor(cfg: PexipConfig) {
     this.client = new PexipClient(cfg);
-    this.sse = new PexipSSE(cfg.nodeUrl);
+    this.sse = new PexipSSE(cfg.nodeUrl, cfg.bearerToken, cfg.sseTransport);
+
+    // keep our token and the SSE stream in step with token rotation
+    this.client.onTokenRotated((r) => this.onTokenRotated(r));
+    this.client.onTokenLost((err) => {
+      if (this.stopped) return;
+      this.emit("error", err instanceof Error ? err : new Error(String(err)));
+    });
 
     // expose for support tools (typed)
     window.__agentDial = {
       getState: () => this.getDebugState(),
+      getHistory: () => this.machine.history(),
     };
   }
 
@@ -179,9 +293,27 @@ export class Orchestrator {
     const set = this.listeners[ev] as unknown as Set<ListenerFn<K>>;
     set.forEach((listener) => listener(payload));
   }
-  private setPhase(p: OrchestratorPhase) {
-    this.phase = p;
+  private get phase(): OrchestratorPhase {
+    return this.machine.phase;
+  }
+  private setPhase(p: OrchestratorPhase, reason?: string) {
+    if (!this.machine.transition(p, reason)) return;
     this.emit("phase", p);
+    this.persist();
+    if (p === "ended" || p === "error") this.emitSummary(p, reason);
+  }
+  private emitSummary(outcome: SessionSummary["outcome"], reason?: string) {
+    const summary = this.metrics.finish(outcome, reason);
+    if (!summary) return;
+    console.info("[agent-dial]", `session summary for ${summary.alias}: ${summary.endReason}`, summary);
+    this.emit("summary", summary);
+  }
+  /** Conditions beyond the transition table. */
+  private phaseGuard(to: OrchestratorPhase): string | null {
+    if (to === "dialing_leg3" && !this.agentReady) return "Leg 3 requires the agent (Leg 1 + Leg 2) to be up";
+    if (to === "reconnecting" && !this.agentReady) return "reconnecting requires the agent (Leg 1 + Leg 2) to be up";
+    if (to === "active" && !this.leg3Dialed) return "active requires Leg 3 to have been dialed";
+    return null;
   }
 
   // ---------- Public helpers ----------
@@ -190,12 +322,228 @@ export class Orchestrator {
       alias: this.currentAlias,
       token: this.token,
       phase: this.phase,
+      legs: this.machine.legs(),
+      history: this.machine.history(),
       leg3Dialed: this.leg3Dialed,
+      leg3Candidate: this.leg3Candidate,
+      leg3Attempts: this.leg3Attempts,
+      leg3Ring: Array.from(this.leg3Ring.values()),
+      leg3Retry: this.leg3Retry,
+      conference: this.conferenceState,
+      serverDisconnectReason: this.serverDisconnectReason,
+      lifecycleProfile: this.policy.id,
+      decisions: this.decisions,
       agentReady: this.agentReady,
+      leg1Alias: this.leg1Alias,
+      agentWait: this.agentWait,
       stopped: this.stopped,
     };
   }
 
+  /** Classify a roster participant into a session leg (dialed UUIDs first, then heuristics). */
+  public legOf(p: Participant): CallLeg | null {
+    for (const leg of Object.keys(this.legUuids) as CallLeg[]) {
+      if (this.legUuids[leg] === p.id) return leg;
+    }
+    if (this.extraLegs.has(p.id)) return "extra";
+    // ring-group calls that lost (or rang out) are not Leg 3, whatever their alias
+    const ring = this.leg3Ring.get(p.id);
+    if (ring) return ring.state === "ringing" || ring.state === "connected" ? "leg3" : null;
+    const dn = normAlias(p.displayName ?? "");
+    for (const dest of this.pendingExtraDestinations) {
+      if (dn && dn.includes(normAlias(dest))) return "extra";
+    }
+    const params = this.lastStartParams;
+    const leg1Alias = this.leg1Alias ?? params?.contactCenterAlias;
+    if (leg1Alias && matchesSipAlias(p, leg1Alias)) return "leg1";
+    if (params?.secondDialAlias && matchesSipAlias(p, params.secondDialAlias)) return "leg3";
+    if (p.protocol === "rtmp") return "recording";
+    if (p.kind === "webrtc") return "leg2";
+    if (p.protocol === "api" || p.protocol === "other") return "leg0";
+    return null;
+  }
+
+  /** Roster label for a participant: the extra leg's label, else the leg name. */
+  public legLabel(p: Participant): string | null {
+    const extra = this.extraLegs.get(p.id);
+    if (extra) return extra.label;
+    const leg = this.legOf(p);
+    return leg ? LEG_LABELS[leg] : null;
+  }
+
+  /** Re-attach snapshot of the live session (see sessionStore.ts), or null when there is none. */
+  public snapshot(): PersistedSession | null {
+    const params = this.lastStartParams;
+    if (this.stopped || !this.token || !this.currentAlias || !params) return null;
+    if (this.phase === "ended" || this.phase === "error") return null;
+    return {
+      version: 1,
+      alias: this.currentAlias,
+      nodeUrl: this.client.nodeUrl(),
+      token: this.token,
+      tokenExpiresAt: this.tokenExpiresAt,
+      phase: this.phase,
+      legUuids: { ...this.legUuids },
+      leg1Alias: this.leg1Alias,
+      leg3Candidate: this.leg3Candidate,
+      leg1DtmfPlayed: this.leg1DtmfPlayed,
+      agentWait: this.agentWait,
+      params: { ...params, pin: undefined },
+      pinProtected: !!params.pin,
+      savedAt: Date.now(),
+    };
+  }
+
+  /** Latest conference state from SSE, or null before the first conference event. */
+  public getConferenceState(): ConferenceState | null {
+    return this.conferenceState;
+  }
+
+  public getExtraLegs(): ExtraLeg[] {
+    return Array.from(this.extraLegs.values());
+  }
+
+  /** Current roster participant for a leg, preferring connected entries. */
+  public participantForLeg(leg: CallLeg): Participant | null {
+    const matches = (this.lastRoster?.participants ?? []).filter((p) => this.legOf(p) === leg);
+    return matches.find((p) => p.isConnected) ?? matches[0] ?? null;
+  }
+
+  // ---------- Per-leg call control ----------
+  /** Mute/unmute a leg's audio, e.g. silence a noisy branch room (leg3). */
+  public async muteLeg(leg: CallLeg, muted = true): Promise<void> {
+    const { token, alias, uuid } = this.requireLeg(leg);
+    await this.client.setAudioMuted(token, alias, uuid, muted);
+  }
+
+  /** Stop/resume a leg's video into the conference. */
+  public async muteLegVideo(leg: CallLeg, muted = true): Promise<void> {
+    const { token, alias, uuid } = this.requireLeg(leg);
+    await this.client.setVideoMuted(token, alias, uuid, muted);
+  }
+
+  /** Drop a single leg without ending the session (lifecycle rules still apply). */
+  public async disconnectLeg(leg: CallLeg): Promise<void> {
+    const { token, alias, uuid } = this.requireLeg(leg);
+    await this.client.disconnectParticipant(token, alias, uuid);
+  }
+
+  public async setLegRole(leg: CallLeg, role: ParticipantRole): Promise<void> {
+    const { token, alias, uuid } = this.requireLeg(leg);
+    await this.client.setRole(token, alias, uuid, role);
+  }
+
+  public async spotlightLeg(leg: CallLeg, on = true): Promise<void> {
+    const { token, alias, uuid } = this.requireLeg(leg);
+    await this.client.setSpotlight(token, alias, uuid, on);
+  }
+
+  /** Mute/unmute any participant by UUID (used by the roster for extra legs too). */
+  public async muteParticipant(participantId: string, muted = true): Promise<void> {
+    const { token, alias } = this.requireSession();
+    await this.client.setAudioMuted(token, alias, participantId, muted);
+  }
+
+  /** Disconnect any single participant by UUID. */
+  public async disconnectParticipant(participantId: string): Promise<void> {
+    const { token, alias } = this.requireSession();
+    await this.client.disconnectParticipant(token, alias, participantId);
+  }
+
+  /**
+   * Bring an extra party (interpreter, loan specialist) into the session by SIP URI
+   * or phone number. Extras never keep the conference alive on their own and do not
+   * count towards the session's presence rules. Returns the new participant UUID.
+   */
+  public async addParticipant(
+    destination: string,
+    role: "HOST" | "GUEST" = "GUEST",
+    callType: "audio" | "video" = "video",
+    opts: { label?: string; protocol?: DialProtocol } = {}
+  ): Promise<string> {
+    const dest = destination.trim();
+    if (!dest) throw new Error("Destination is required.");
+    const { token, alias } = this.requireSession();
+
+    this.pendingExtraDestinations.add(dest);
+    try {
+      const created = await this.client.dial(token, alias, dest, opts.protocol ?? "auto", {
+        role,
+        callType,
+        sourceDisplayName: this.lastStartParams?.displayName || "Genesys Widget",
+        localAlias: alias,
+        keepConferenceAlive: "keep_conference_alive_never",
+      });
+      const id = created[0];
+      if (!id) throw new Error(`Could not route a call to ${dest}.`);
+
+      this.extraLegs.set(id, {
+        id,
+        destination: dest,
+        label: opts.label?.trim() || dest,
+        role,
+        callType,
+        addedAt: Date.now(),
+        connected: false,
+      });
+      console.info("[agent-dial]", "extra participant dialed", dest, id);
+      if (this.lastRoster) this.emit("roster", this.lastRoster);
+      return id;
+    } finally {
+      this.pendingExtraDestinations.delete(dest);
+    }
+  }
+
+  /** Send ad-hoc DTMF digits into a leg (keypad). */
+  public async sendDtmf(leg: CallLeg, digits: string): Promise<void> {
+    if (!DTMF_DIGITS.test(digits)) throw new Error(`Invalid DTMF digits: "${digits}"`);
+    const { token, alias, uuid } = this.requireLeg(leg);
+    await this.client.sendDtmf(token, alias, uuid, digits);
+  }
+
+  /** Apply a named layout preset to the whole conference. */
+  public async applyLayout(preset: LayoutPreset): Promise<void> {
+    const { token, alias } = this.requireSession();
+    console.info("[agent-dial]", "applying layout preset", preset.id);
+    await this.client.transformLayout(token, alias, preset.transform);
+    this.layoutPresetId = preset.id;
+  }
+
+  public currentLayoutPresetId(): string | null {
+    return this.layoutPresetId;
+  }
+
+  /** Send a chat message into the conference (e.g. "Your advisor will join shortly"). */
+  public async sendMessage(text: string): Promise<void> {
+    const body = text.trim();
+    if (!body) return;
+    const { token, alias } = this.requireSession();
+    await this.client.sendMessage(token, alias, body);
+    this.emit("message", {
+      id: `out-${Date.now()}`,
+      direction: "out",
+      origin: this.lastStartParams?.displayName || "Agent",
+      text: body,
+      at: Date.now(),
+    });
+  }
+
+  /** Every in-call command goes through here; it also notes the use (holds Leg 0 retirement). */
+  private requireSession(): { token: string; alias: string } {
+    if (!this.token || !this.currentAlias) {
+      throw new Error("No active session (token released or session ended).");
+    }
+    this.lastControlAt = Date.now();
+    return { token: this.token, alias: this.currentAlias };
+  }
+
+  private requireLeg(leg: CallLeg): { token: string; alias: string; uuid: string } {
+    const session = this.requireSession();
+    const p = this.participantForLeg(leg);
+    if (!p) throw new Error(`${LEG_LABELS[leg]} is not in the conference.`);
+    return { ...session, uuid: p.id };
+  }
+
   /** Poll server and reconcile. */
   public async refreshFromServer(): Promise<void> {
     if (!this.token || !this.currentAlias) return;
@@ -213,27 +561,15 @@ export class Orchestrator {
    * Supports shapes { result: [...] } or [].
    */
   public ingestParticipantsSnapshot(raw: unknown) {
-    let list: unknown = raw;
-    if (isRecord(raw) && Array.isArray((raw as Record<string, unknown>).result)) {
-      list = (raw as Record<string, unknown>).result;
-    }
-    if (!Array.isArray(list)) return;
+    const participants = participantsFromResponse(raw);
+    if (!participants) return;
 
-    const participants: Participant[] = [];
-    for (const item of list) {
-      if (!isRecord(item)) continue;
-      const p = mapRawParticipant(item);
-      if (p) participants.push(p);
-    }
+    diffRoster(this.participantView.values(), participants).forEach((d) => this.applyDelta(d));
 
     const snapshot: RosterSnapshot = {
       participants,
-      counts: {
-        webrtcVideo: participants.filter((p) => p.kind === "webrtc" && p.isConnected && p.isVideo)
-          .length,
-        sipVideo: participants.filter((p) => p.kind === "sip" && p.isConnected && p.isVideo)
-          .length,
-      },
+      counts: rosterCounts(participants),
+      conference: this.conferenceState ?? undefined,
     };
 
     if (this.lastStartParams) {
@@ -243,6 +579,29 @@ export class Orchestrator {
     }
   }
 
+  /**
+   * Re-establish the event stream after the page was frozen or the network came
+   * back: check the token first (its refresh timer may have been throttled), then
+   * reconnect SSE with the current token and reconcile the roster over REST.
+   */
+  public async reconnectEvents(reason: string): Promise<void> {
+    if (this.stopped || !this.token || !this.currentAlias) return;
+    console.info("[agent-dial]", `${reason} -> checking token and reconnecting SSE`);
+    try {
+      await this.client.checkToken();
+    } catch (err) {
+      console.warn("[agent-dial] token check failed (refresh keeps retrying)", err);
+    }
+    if (this.stopped || !this.token) return;
+    this.sse.reconnectNow(this.rosterHandler);
+    await this.refreshFromServer();
+  }
+
+  /** True while this widget is running a session (leaving the page would abandon it). */
+  public isLive(): boolean {
+    return !this.stopped && this.phase !== "idle" && this.phase !== "ended" && this.phase !== "error";
+  }
+
   /** Idempotent Leg 3 guard. */
   public ensureLeg3IfAgentReady() {
     if (this.stopped || this.leg3Dialed || !this.agentReady || !this.lastStartParams) return;
@@ -252,84 +611,162 @@ export class Orchestrator {
   // ---------- Flow ----------
   async start(params: StartParams) {
     try {
-      this.lastStartParams = { ...params };
-      this.agentReady = false;
-      this.leg3Dialed = false;
-      this.stopped = false;
-      this.inactiveSince = null;
-      this.minTwoArmed = false;
-      this.belowTwoSince = null;
-      this.sseGraceUntil = 0;
-      this.lastConnectedCount = 0;
-      this.fullyEngagedSince = null;
-      this.killOnAgentDropArmed = false;
-      this.currentAlias = params.sessionAlias;
-
-      // reset retirement trackers
-      this.leg0Retired = false;
-      this.fourLegsSince = null;
+      this.resetSession(params);
 
       // Leg 0: Request token
+      this.machine.reset();
+      this.metrics.begin(params.sessionAlias);
       this.setPhase("getting_token");
-      const { token } = await this.client.requestToken(
+      this.machine.setLeg("leg0", "dialing");
+      const { token, expires } = await this.client.requestToken(
         params.sessionAlias,
         params.displayName,
         params.pin
       );
       this.token = token;
+      this.tokenExpiresAt = Date.now() + (expires ?? 120) * 1000;
+      this.machine.setLeg("leg0", "connected", "token issued");
 
-      // Start SSE early
-      this.sse.connect(params.sessionAlias, token, (r) => this.onRoster(r, this.lastStartParams!));
+      // Start SSE early, on the node that issued the token
+      this.connectSse(params.sessionAlias, token);
 
       if (this.stopped) return;
 
-      // Leg 1: SIP audio to contact center — enforce protocol AUTO
+      // Leg 1: SIP audio to contact center (protocol AUTO unless configured)
       this.setPhase("dialing_leg1");
+      await this.dialLeg1(params, params.contactCenterAlias);
+      if (this.stopped) return;
 
-      // Build custom SIP headers (lowercase after the leading 'X-')
-      const custom: Record<string, string> = {};
-      if (params.agentUserId && String(params.agentUserId).trim()) {
-        custom["X-agent-id"] = String(params.agentUserId).trim();
-      }
-      if (params.queueId && String(params.queueId).trim()) {
-        custom["X-queue-id"] = String(params.queueId).trim();
+      // the agent can be up (and Leg 3 dialing) before the Leg 1 dial request returns
+      if (this.phase === "dialing_leg1") {
+        this.setPhase("waiting_agent_answered");
+        this.armAgentWait(params, params.contactCenterAlias, 1);
       }
+    } catch (err) {
+      console.error(
+        "[agent-dial] start error:",
+        isPexipError(err) ? `${err.kind} (${err.call})` : "",
+        err
+      );
+      const message = err instanceof Error ? err.message : String(err);
+      if (this.phase === "getting_token") this.machine.setLeg("leg0", "failed", message);
+      if (this.phase === "dialing_leg1") this.machine.setLeg("leg1", "failed", message);
+      this.emit("error", err instanceof Error ? err : new Error(String(err)));
+      this.setPhase("error", message);
+    }
+  }
 
-      const leg1Opts: {
-        role: "HOST";
-        callType: "audio";
-        sourceDisplayName?: string;
-        localAlias?: string;
-        customHeaders?: Record<string, string>;
-        keepConferenceAlive?: KeepConferenceAliveMode;
-      } = {
-        role: "HOST",
-        callType: "audio",
-        sourceDisplayName: params.sessionAlias,
-        localAlias: params.sessionAlias,
-        customHeaders: Object.keys(custom).length ? custom : undefined,
-      };
-
-      await this.client.dial(
-        this.token,
-        params.sessionAlias,
-        params.contactCenterAlias,
-        "auto",
-        leg1Opts
+  /**
+   * Re-attach to a session saved before a page reload (see sessionStore.ts):
+   * take over its token, reconnect SSE and reconcile the roster from the node.
+   * Presence rules then decide as usual (e.g. the conference emptied meanwhile).
+   * `pin` is needed when the saved token expired and the conference is PIN-protected;
+   * without it the PIN error is emitted and the saved session kept for another try.
+   * Returns true once re-attached.
+   */
+  async resume(saved: PersistedSession, pin?: string): Promise<boolean> {
+    try {
+      this.resetSession(saved.params);
+      this.legUuids = { ...saved.legUuids };
+      this.leg1Alias = saved.leg1Alias;
+      this.leg3Candidate = saved.leg3Candidate;
+      // past the agent wait, Leg 1 + Leg 2 were up and Leg 3 was dialed
+      this.agentReady = ["dialing_leg3", "active", "reconnecting"].includes(saved.phase);
+      this.leg3Dialed = this.agentReady;
+      this.leg1DtmfPlayed = saved.leg1DtmfPlayed;
+      this.recordingDialed = !!saved.legUuids.recording;
+
+      this.machine.reset();
+      this.metrics.begin(saved.alias, true);
+      this.machine.setLeg("leg0", "dialing", "re-attach");
+      const { token, expires } = await this.client.resumeToken(
+        saved.alias,
+        saved.nodeUrl,
+        saved.token,
+        saved.params.displayName,
+        pin
       );
+      this.token = token;
+      this.tokenExpiresAt = Date.now() + (expires ?? 120) * 1000;
+      this.machine.setLeg("leg0", "connected", "token resumed");
 
-      this.setPhase("waiting_agent_answered");
+      this.machine.restore(saved.phase);
+      this.emit("phase", saved.phase);
+      console.info("[agent-dial]", `re-attached to ${saved.alias} (${saved.phase}) on ${saved.nodeUrl}`);
+
+      this.connectSse(saved.alias, token);
+      if (saved.phase === "waiting_agent_answered" && saved.agentWait) {
+        this.armAgentWait(saved.params, saved.agentWait.alias, saved.agentWait.attempt, saved.agentWait.deadline);
+      }
+      this.persist();
+      await this.refreshFromServer();
+      // the pending redial died with the page: start a fresh budget
+      if (saved.phase === "reconnecting") await this.retryLeg3("reconnect", "re-attached after reload");
+      return true;
     } catch (err) {
-      console.error("[agent-dial] start error:", err);
-      this.emit("error", err instanceof Error ? err : new Error(String(err)));
-      this.setPhase("error");
+      console.error("[agent-dial] resume failed:", err);
+      const message = err instanceof Error ? err.message : String(err);
+      this.machine.setLeg("leg0", "failed", message);
+      this.stopped = true;
+      this.client.forgetToken();
+      if (isPexipError(err) && err.kind === "pin") {
+        // keep (or, after a tab hand-off, store) the session so it can be retried with the PIN
+        saveSession(saved);
+        this.emit("error", err);
+      } else {
+        clearSession();
+        this.emit("error", new Error(`Could not re-attach to ${saved.alias}: ${message}`));
+      }
+      this.machine.restore("error", message);
+      this.emit("phase", "error");
+      this.emitSummary("error", message);
+      return false;
     }
   }
 
-  stop() {
+  /**
+   * End a session saved before a reload without managing it: disconnect everyone.
+   * Like resume(), a PIN-protected conference with an expired token needs `pin`;
+   * without it the PIN error is emitted and the session kept. Returns true once handled.
+   */
+  async endPersisted(saved: PersistedSession, pin?: string): Promise<boolean> {
+    try {
+      const { token } = await this.client.resumeToken(
+        saved.alias,
+        saved.nodeUrl,
+        saved.token,
+        saved.params.displayName,
+        pin
+      );
+      console.info("[agent-dial]", "ending orphaned session", saved.alias, "-> disconnect_all");
+      await this.client.disconnectAll(token, saved.alias);
+    } catch (err) {
+      if (isPexipError(err) && err.kind === "pin") {
+        this.client.forgetToken();
+        this.emit("error", err);
+        return false;
+      }
+      console.warn("[agent-dial] ending orphaned session failed (ignored)", err);
+    }
+    this.client.forgetToken();
+    clearSession();
+    return true;
+  }
+
+  /**
+   * Stop managing the session locally; the conference keeps running. Also used
+   * when another tab took the session over (`reason` ends up in the timeline).
+   */
+  stop(reason?: string) {
     this.stopped = true;
+    // no more refresh/re-request: a re-issued token would add an API participant nobody manages
+    this.client.forgetToken();
+    clearSession();
+    this.clearAgentWait();
+    this.clearLeg3Retry();
+    this.clearLeg3Hunt();
     this.sse.close();
-    this.setPhase("ended");
+    this.setPhase("ended", reason);
     console.info("[agent-dial]", "SSE closed; phase ended");
   }
 
@@ -337,6 +774,7 @@ export class Orchestrator {
     try {
       if (this.token && this.currentAlias) {
         console.info("[agent-dial]", "hardEnd -> disconnect_all");
+        this.metrics.endConference();
         await this.client.disconnectAll(this.token, this.currentAlias);
       }
     } finally {
@@ -347,22 +785,361 @@ export class Orchestrator {
   }
 
   // ---------- Internals ----------
+  /** Clear every per-session field before a new (or re-attached) session. */
+  private resetSession(params: StartParams) {
+    this.lastStartParams = { ...params };
+    this.agentReady = false;
+    this.leg3Dialed = false;
+    this.stopped = false;
+    this.inactiveSince = null;
+    this.minTwoArmed = false;
+    this.belowTwoSince = null;
+    this.sseGraceUntil = 0;
+    this.lastConnectedCount = 0;
+    this.fullyEngagedSince = null;
+    this.killOnAgentDropArmed = false;
+    this.currentAlias = params.sessionAlias;
+    this.lastRoster = null;
+    this.conferenceState = null;
+    this.serverDisconnectReason = null;
+    this.participantView.clear();
+    this.policy = params.lifecyclePolicy ?? DEFAULT_LIFECYCLE_POLICY;
+    this.decisions = [];
+    this.legUuids = {};
+    this.extraLegs.clear();
+    this.pendingExtraDestinations.clear();
+    this.leg1DtmfPlayed = false;
+    this.layoutPresetId = null;
+    this.recordingDialed = false;
+    this.leg3Attempts = [];
+    this.leg3Candidate = null;
+    this.leg3Ring.clear();
+    this.clearLeg3Hunt();
+    this.leg1Alias = null;
+    this.clearAgentWait();
+    this.clearLeg3Retry();
+
+    // reset retirement trackers
+    this.leg0Retired = false;
+    this.fourLegsSince = null;
+    this.lastControlAt = null;
+  }
+
+  /** Open the event stream on the node that issued the token. */
+  private connectSse(alias: string, token: string) {
+    this.sse.setNodeUrl(this.client.nodeUrl());
+    this.sse.connect(alias, token, this.rosterHandler, {
+      onMessage: (m) => this.emit("message", m),
+      onConference: (c) => {
+        this.conferenceState = c;
+        this.emit("conference", c);
+      },
+      onDisconnect: (reason) => this.onServerDisconnect(reason),
+      onParticipantJoined: (e) => this.applyDelta({ type: "joined", ...e }),
+      onParticipantLeft: (e) => this.applyDelta({ type: "left", ...e }),
+      onParticipantChanged: (e) => this.applyDelta({ type: "changed", ...e }),
+    });
+  }
+
+  /** Save the live session for re-attach after a reload; cleared once it is over. */
+  private persist() {
+    if (this.phase === "ended" || this.phase === "error") {
+      clearSession();
+      return;
+    }
+    const snapshot = this.snapshot();
+    if (snapshot) saveSession(snapshot);
+  }
+
+  private rosterHandler = (r: RosterSnapshot) => {
+    if (this.lastStartParams) void this.onRoster(r, this.lastStartParams);
+  };
+
+  private onTokenRotated(r: TokenRotation) {
+    if (this.stopped || r.alias !== this.currentAlias) return;
+    this.token = r.token;
+    if (r.expires) this.tokenExpiresAt = Date.now() + r.expires * 1000;
+    this.persist();
+    this.sse.updateAuth(r.alias, r.token);
+    if (r.reason === "reissue") {
+      // the old token (and its event stream) is dead: reconnect with the new one
+      console.info("[agent-dial]", "token re-issued -> reconnecting SSE");
+      this.sse.reconnectNow(this.rosterHandler);
+    }
+  }
+
+  /**
+   * Reconcile a delta (from SSE or a REST snapshot) with the participant view and
+   * re-emit it with the session leg. Duplicates across sources collapse: a "joined"
+   * for a known participant becomes "changed" (or nothing), an unknown "left" is dropped.
+   */
+  private applyDelta(d: RosterDelta) {
+    if (this.stopped) return;
+    const id = d.participant.id;
+    const prev = this.participantView.get(id);
+
+    if (d.type === "left") {
+      if (!prev) return;
+      this.participantView.delete(id);
+      const leg = this.legOf(prev);
+      console.info("[agent-dial]", `participant left: ${prev.displayName || id}`, leg ?? "", d.reason ?? "");
+      this.emit("participantLeft", { participant: prev, at: d.at, reason: d.reason, leg });
+      if (leg === "leg3") this.onLeg3Left(prev, d.reason);
+      return;
+    }
+
+    this.participantView.set(id, d.participant);
+    const leg = this.legOf(d.participant);
+    if (!prev) {
+      console.info("[agent-dial]", `participant joined: ${d.participant.displayName || id}`, leg ?? "");
+      this.emit("participantJoined", { participant: d.participant, at: d.at, leg });
+      return;
+    }
+    const changes = diffParticipant(prev, d.participant);
+    if (hasChanges(changes)) {
+      this.emit("participantChanged", { participant: d.participant, changes, at: d.at, leg });
+    }
+  }
+
+  /** Record and emit a lifecycle rule decision. */
+  private decide(rule: LifecycleRule, outcome: LifecycleDecision["outcome"], reason: string) {
+    const d: LifecycleDecision = { rule, outcome, reason, profile: this.policy.id, at: Date.now() };
+    this.decisions.push(d);
+    this.metrics.decision(d);
+    console.info("[agent-dial]", `lifecycle ${rule} -> ${outcome}: ${reason}`);
+    this.emit("lifecycle", d);
+  }
+
+  /** Apply a terminating rule: tear the conference down, or just let go of it. */
+  private async endSession(rule: LifecycleRule, action: LifecycleAction, reason: string) {
+    this.decide(rule, action, reason);
+    try {
+      if (action === "end_conference") await this.hardEnd();
+      else await this.retireLeg0();
+    } catch (err) {
+      console.warn(`[agent-dial] ${action} failed (ignored, ${rule} path)`, err);
+    }
+  }
+
+  /**
+   * The node ended our session (SSE `disconnect`): the token is already dead, so
+   * skip release/disconnect calls and end locally instead of waiting for dormancy.
+   */
+  private onServerDisconnect(reason: string) {
+    if (this.stopped) return;
+    console.warn("[agent-dial]", "session disconnected by server:", reason);
+    this.serverDisconnectReason = reason;
+    this.decide("server_disconnect", "stop", `Conference node ended the session: ${reason}`);
+    this.client.forgetToken();
+    this.stop();
+    this.currentAlias = null;
+    this.token = null;
+  }
+
+  /** Dial Leg 1 (SIP audio, HOST) to `alias` with the agent/queue custom headers. */
+  private async dialLeg1(params: StartParams, alias: string): Promise<void> {
+    if (!this.token) return;
+    this.leg1Alias = alias;
+    this.machine.setLeg("leg1", "dialing", alias);
+
+    // Build custom SIP headers (lowercase after the leading 'X-')
+    const custom: Record<string, string> = {};
+    if (params.agentUserId && String(params.agentUserId).trim()) {
+      custom["X-agent-id"] = String(params.agentUserId).trim();
+    }
+    if (params.queueId && String(params.queueId).trim()) {
+      custom["X-queue-id"] = String(params.queueId).trim();
+    }
+
+    const leg1Opts: {
+      role: "HOST";
+      callType: "audio";
+      sourceDisplayName?: string;
+      localAlias?: string;
+      customHeaders?: Record<string, string>;
+      keepConferenceAlive?: KeepConferenceAliveMode;
+    } = {
+      role: "HOST",
+      callType: "audio",
+      sourceDisplayName: params.sessionAlias,
+      localAlias: params.sessionAlias,
+      customHeaders: Object.keys(custom).length ? custom : undefined,
+    };
+
+    const leg1Created = await this.client.dial(
+      this.token,
+      params.sessionAlias,
+      alias,
+      params.leg1Protocol ?? "auto",
+      leg1Opts
+    );
+    if (leg1Created[0]) {
+      this.legUuids.leg1 = leg1Created[0];
+      this.persist();
+      this.machine.setLeg("leg1", "ringing");
+    } else {
+      this.machine.setLeg("leg1", "failed", "no participant created (no matching routing rule?)");
+    }
+  }
+
+  /**
+   * Start the agent-answer countdown for a Leg 1 dial (no-op without a timeout).
+   * `deadline` continues a countdown saved before a page reload.
+   */
+  private armAgentWait(params: StartParams, alias: string, attempt: number, deadline?: number) {
+    this.clearAgentWait();
+    const timeoutMs = params.agentAnswerTimeoutMs ?? 0;
+    if (timeoutMs <= 0 || this.agentReady || this.stopped) return;
+    const now = Date.now();
+    const end = deadline ?? now + timeoutMs;
+    this.agentWait = { alias, attempt, startedAt: end - timeoutMs, deadline: end };
+    this.agentAnswerTimer = window.setTimeout(
+      () => void this.onAgentAnswerTimeout(params),
+      Math.max(0, end - now)
+    );
+    this.emit("agentWait", this.agentWait);
+    this.persist();
+  }
+
+  private clearAgentWait() {
+    if (this.agentAnswerTimer) {
+      window.clearTimeout(this.agentAnswerTimer);
+      this.agentAnswerTimer = undefined;
+    }
+    if (this.agentWait) {
+      this.agentWait = null;
+      this.emit("agentWait", null);
+    }
+  }
+
+  /**
+   * Nobody answered in time: redial Leg 1 once to the overflow alias if one is
+   * configured, otherwise tear the conference down ("no agent answered").
+   */
+  private async onAgentAnswerTimeout(params: StartParams) {
+    const wait = this.agentWait;
+    this.agentAnswerTimer = undefined;
+    this.clearAgentWait();
+    if (this.stopped || this.agentReady || !wait) return;
+
+    const seconds = Math.round((wait.deadline - wait.startedAt) / 1000);
+    const overflow = params.overflowContactCenterAlias?.trim();
+    if (overflow && wait.attempt === 1 && normAlias(overflow) !== normAlias(wait.alias)) {
+      this.decide(
+        "agent_answer_timeout",
+        "overflow",
+        `no agent answered on ${wait.alias} within ${seconds} s; redialing ${overflow}`
+      );
+      // dropping the unanswered call must not trip "min two" before the overflow connects
+      this.minTwoArmed = false;
+      this.belowTwoSince = null;
+      const stale = this.legUuids.leg1;
+      delete this.legUuids.leg1;
+      if (stale && this.token && this.currentAlias) {
+        await this.client
+          .disconnectParticipant(this.token, this.currentAlias, stale)
+          .catch((err) => console.warn("[agent-dial] dropping unanswered Leg 1 failed (ignored)", err));
+      }
+      if (this.stopped) return;
+      this.leg1DtmfPlayed = false;
+      try {
+        await this.dialLeg1(params, overflow);
+        this.armAgentWait(params, overflow, wait.attempt + 1);
+      } catch (err) {
+        console.warn("[agent-dial] overflow Leg 1 dial failed", err);
+        this.machine.setLeg("leg1", "failed", err instanceof Error ? err.message : String(err));
+        await this.endSession(
+          "agent_answer_timeout",
+          "end_conference",
+          `No agent answered; overflow dial to ${overflow} failed`
+        );
+      }
+      return;
+    }
+
+    this.machine.setLeg("leg1", "failed", "no agent answered");
+    await this.endSession("agent_answer_timeout", "end_conference", `No agent answered within ${seconds} s`);
+  }
+
+  /**
+   * Dial Leg 3: the ring group (or secondDialAlias alone) sequentially or all at
+   * once, or, when reconnecting, just the destination that won last time. The
+   * call that connects first is settled in onRoster (settleLeg3Ring).
+   */
   private async tryDialLeg3WithCandidates(params: StartParams) {
     if (!this.token) return;
     this.leg3Dialed = true; // optimistic
 
-    this.setPhase("dialing_leg3");
+    // a reconnect redials the destination that worked; anything else resolves afresh
+    const reconnecting = this.phase === "reconnecting";
+    const known = reconnecting ? this.leg3Candidate : null;
+    if (!reconnecting) this.setPhase("dialing_leg3");
+
+    const group = params.leg3RingGroup;
+    const destinations = known
+      ? [known.destination]
+      : group?.destinations.length
+      ? group.destinations
+      : [params.secondDialAlias];
+    const mode: Leg3RingMode = known ? "sequential" : group?.mode ?? "sequential";
+
+    this.clearLeg3Hunt();
+    this.leg3Ring.clear();
+    this.leg3Attempts = [];
+    // keep the known-good destination across failed reconnect redials
+    if (!known) this.leg3Candidate = null;
+    this.machine.setLeg("leg3", "dialing", destinations.join(", "));
+
+    if (mode === "simultaneous") {
+      const outcomes = await Promise.all(destinations.map((d) => this.placeLeg3Call(params, d, null)));
+      if (this.stopped) return;
+      const placed = outcomes.filter((o) => o === "placed").length;
+      if (placed > 0) {
+        this.machine.setLeg("leg3", "ringing", `${placed} endpoint${placed === 1 ? "" : "s"}`);
+        return;
+      }
+      await this.leg3GroupFailed();
+      return;
+    }
 
-    const destRaw = params.secondDialAlias.trim();
-    const hasAt = destRaw.includes("@");
-    const looksSip = /^sip:/i.test(destRaw);
+    this.leg3Hunt = { queue: [...destinations], known, timeoutMs: group?.huntTimeoutMs ?? 0 };
+    await this.huntNextLeg3(params);
+  }
 
-    // Optional domain to form candidates when user typed only a short alias
-    const customerSipDomain =
-      typeof (params as Record<string, unknown>)["customerSipDomain"] === "string" &&
-      String((params as Record<string, unknown>)["customerSipDomain"]).trim()
-        ? String((params as Record<string, unknown>)["customerSipDomain"]).trim()
-        : undefined;
+  /**
+   * Resolve one destination and dial its candidates until the node creates a
+   * participant, which is then tracked as a ring attempt. Invalid input is
+   * reported right away and never retried.
+   */
+  private async placeLeg3Call(
+    params: StartParams,
+    raw: string,
+    known: Leg3Candidate | null
+  ): Promise<"placed" | "failed" | "invalid"> {
+    if (!this.token) return "failed";
+
+    let resolution: Leg3Resolution;
+    try {
+      resolution = known
+        ? { input: raw, format: known.format, candidates: [known] }
+        : resolveLeg3Destination(
+            raw,
+            {
+              ...params.leg3Resolver,
+              // per-call domain wins over the configured default
+              sipDomain: params.customerSipDomain || params.leg3Resolver?.sipDomain,
+            },
+            params.leg3Protocol
+          );
+    } catch (err) {
+      this.emit("error", err instanceof Error ? err : new Error(String(err)));
+      return "invalid";
+    }
+    console.info(
+      "[agent-dial]",
+      `Leg 3 "${resolution.input}" resolved as ${resolution.format}:`,
+      resolution.candidates.map((c) => `${c.destination} (${c.protocol})`)
+    );
 
     const leg3Opts = {
       role: "HOST" as const,
@@ -371,67 +1148,330 @@ export class Orchestrator {
       localAlias: params.sessionAlias,
     };
 
-    // Candidate list: try both raw and SIP-prefixed forms; protocol AUTO handles routing
-    const candidates: string[] = [];
-    if (looksSip) {
-      candidates.push(destRaw);
-      const stripped = destRaw.replace(/^sip:/i, "");
-      if (stripped) candidates.push(stripped);
-    } else if (hasAt) {
-      candidates.push(destRaw);
-      candidates.push(`sip:${destRaw}`);
-    } else {
-      if (customerSipDomain) {
-        candidates.push(`${destRaw}@${customerSipDomain}`);
-        candidates.push(`sip:${destRaw}@${customerSipDomain}`);
-      }
-      candidates.push(destRaw);
-      candidates.push(`sip:${destRaw}`);
-    }
-
-    let success = false;
-    let lastErr: unknown = null;
-
-    for (const dest of candidates) {
+    for (const candidate of resolution.candidates) {
+      const attempt: Leg3Attempt = { candidate };
+      this.leg3Attempts.push(attempt);
       try {
         const created = await this.client.dial(
           this.token!,
           params.sessionAlias,
-          dest,
-          "auto",
+          candidate.destination,
+          candidate.protocol,
           leg3Opts
         );
         if (created.length > 0) {
-          success = true;
-          break;
+          attempt.participantId = created[0];
+          this.leg3Ring.set(created[0], {
+            participantId: created[0],
+            destination: raw,
+            candidate,
+            state: "ringing",
+            startedAt: Date.now(),
+          });
+          console.info("[agent-dial]", `Leg 3 dialed via ${candidate.destination} (${candidate.protocol})`);
+          this.metrics.leg3Dial(candidate.destination, candidate.protocol);
+          return "placed";
         }
+        attempt.error = "no participant created (no matching routing rule?)";
+        this.metrics.leg3Dial(candidate.destination, candidate.protocol, attempt.error);
       } catch (err) {
-        lastErr = err;
+        attempt.error = err instanceof Error ? err.message : String(err);
+        this.metrics.leg3Dial(candidate.destination, candidate.protocol, attempt.error);
+        // token/transport problems affect every candidate equally: stop early
+        if (isPexipError(err) && (err.kind === "token_expired" || err.kind === "network")) {
+          console.warn("[agent-dial]", `Leg 3 dial aborted (${err.kind})`);
+          break;
+        }
+      }
+    }
+    return "failed";
+  }
+
+  /** Sequential hunt: place the next queued destination, skipping ones that do not route. */
+  private async huntNextLeg3(params: StartParams): Promise<void> {
+    const hunt = this.leg3Hunt;
+    if (!hunt) return;
+    while (hunt.queue.length > 0) {
+      const destination = hunt.queue.shift()!;
+      const outcome = await this.placeLeg3Call(params, destination, hunt.known);
+      if (this.stopped || this.leg3Hunt !== hunt) return; // superseded by a win or a new dial
+      if (outcome !== "placed") continue;
+
+      this.machine.setLeg("leg3", "ringing", destination);
+      // the last destination rings as long as the node lets it
+      if (hunt.timeoutMs > 0 && hunt.queue.length > 0) {
+        const ringing = Array.from(this.leg3Ring.values()).find((r) => r.state === "ringing");
+        hunt.timer = window.setTimeout(() => {
+          hunt.timer = undefined;
+          if (!ringing || this.leg3Hunt !== hunt) return;
+          const reason = `no answer within ${Math.round(hunt.timeoutMs / 1000)} s`;
+          this.markLeg3Attempt(ringing.participantId, reason);
+          void this.cancelLeg3Call(ringing.participantId, reason).then(() => {
+            if (this.leg3Hunt === hunt) void this.huntNextLeg3(params);
+          });
+        }, hunt.timeoutMs);
       }
+      return;
     }
+    await this.leg3GroupFailed();
+  }
+
+  /** The first ring attempt to connect becomes Leg 3; the rest are cancelled. */
+  private settleLeg3Ring(participants: Participant[]) {
+    const winner = participants.find((p) => p.isConnected && this.leg3Ring.get(p.id)?.state === "ringing");
+    if (!winner) return;
+    const ring = this.leg3Ring.get(winner.id)!;
+    ring.state = "connected";
+    this.legUuids.leg3 = winner.id;
+    this.leg3Candidate = ring.candidate;
+    this.metrics.leg3Connected(ring.candidate.destination);
+    this.persist();
+    this.clearLeg3Hunt();
+    console.info("[agent-dial]", `Leg 3 answered by ${ring.destination}`);
+    this.leg3Ring.forEach((other) => {
+      if (other.state === "ringing") void this.cancelLeg3Call(other.participantId, `${ring.destination} answered first`);
+    });
+  }
+
+  /** Hang up a ring attempt that lost (or timed out); errors are ignored. */
+  private async cancelLeg3Call(participantId: string, reason: string): Promise<void> {
+    const ring = this.leg3Ring.get(participantId);
+    if (!ring || ring.state !== "ringing") return;
+    ring.state = "cancelled";
+    ring.endedAt = Date.now();
+    ring.reason = reason;
+    console.info("[agent-dial]", `Leg 3 call to ${ring.destination} cancelled: ${reason}`);
+    if (!this.token || !this.currentAlias) return;
+    await this.client
+      .disconnectParticipant(this.token, this.currentAlias, participantId)
+      .catch((err) => console.warn("[agent-dial] cancelling Leg 3 call failed (ignored)", err));
+  }
 
-    if (!success) {
-      this.leg3Dialed = false;
+  /** Note why a placed call did not become Leg 3 (for the aggregated error). */
+  private markLeg3Attempt(participantId: string, error: string) {
+    const attempt = this.leg3Attempts.find((a) => a.participantId === participantId);
+    if (attempt) attempt.error = error;
+  }
+
+  private clearLeg3Hunt() {
+    if (this.leg3Hunt?.timer) window.clearTimeout(this.leg3Hunt.timer);
+    this.leg3Hunt = null;
+  }
 
-      if (!this.pendingLeg3Retry) {
-        this.pendingLeg3Retry = window.setTimeout(() => {
-          this.pendingLeg3Retry = undefined;
-          if (!this.stopped && this.agentReady && !this.leg3Dialed && this.lastStartParams) {
-            void this.tryDialLeg3WithCandidates(this.lastStartParams);
-          }
-        }, 2500);
+  /** Nothing in the ring group connected: surface every attempt and spend the retry budget. */
+  private async leg3GroupFailed(): Promise<void> {
+    if (this.stopped) return;
+    this.clearLeg3Hunt();
+    const attempts = this.leg3Attempts;
+    if (attempts.length === 0) {
+      // every destination was invalid (already reported): a redial would not help
+      this.machine.setLeg("leg3", "failed", "no valid destination");
+      return;
+    }
+
+    // the phase is kept: the failure is a Leg 3 sub-state while a redial is pending
+    const failure = new Leg3DialError(
+      `Leg 3 could not be routed (${attempts.length} attempt${attempts.length === 1 ? "" : "s"}):\n` +
+        describeLeg3Attempts(attempts),
+      attempts
+    );
+    this.machine.setLeg("leg3", "failed", `${attempts.length} candidate(s) failed`);
+    this.emit("error", failure);
+    await this.retryLeg3(this.phase === "reconnecting" ? "reconnect" : "initial", failure.message);
+  }
+
+  /**
+   * Leg 3 left the conference. A ring attempt leaving means it rang out or was
+   * rejected (hunt on, or fail the group). The connected Leg 3 leaving mid-call
+   * (agent still up) starts a reconnect. Older Leg 3 participants are ignored.
+   */
+  private onLeg3Left(p: Participant, reason?: string) {
+    if (this.stopped) return;
+    const why = reason || p.disconnectReason || "left the conference";
+
+    const ring = this.leg3Ring.get(p.id);
+    if (ring?.state === "ringing") {
+      ring.state = "failed";
+      ring.endedAt = Date.now();
+      ring.reason = why;
+      this.markLeg3Attempt(p.id, why);
+      if (this.leg3Hunt && this.lastStartParams) {
+        if (this.leg3Hunt.timer) window.clearTimeout(this.leg3Hunt.timer);
+        this.leg3Hunt.timer = undefined;
+        void this.huntNextLeg3(this.lastStartParams);
+      } else if (!Array.from(this.leg3Ring.values()).some((r) => r.state === "ringing")) {
+        void this.leg3GroupFailed();
       }
+      return;
+    }
+    if (p.id !== this.legUuids.leg3) return;
+
+    if (this.phase === "active") {
+      const agentUp =
+        !!this.participantForLeg("leg1")?.isConnected && !!this.participantForLeg("leg2")?.isConnected;
+      if (!this.policy.leg3Retry.reconnect || !agentUp) return; // presence rules take it from here
+      this.machine.setLeg("leg3", "disconnected", why);
+      this.setPhase("reconnecting", `${LEG_LABELS.leg3} dropped: ${why}`);
+      void this.retryLeg3("reconnect", why);
+      return;
+    }
+    if (this.phase === "dialing_leg3" || this.phase === "reconnecting") {
+      this.machine.setLeg("leg3", "failed", why);
+      void this.retryLeg3(this.phase === "reconnecting" ? "reconnect" : "initial", why);
+    }
+  }
 
-      const err =
-        lastErr instanceof Error
-          ? lastErr
-          : new Error(
-              "Leg 3 could not be routed. Provide a routable alias/URI or verify server routing rules."
-            );
-      this.emit("error", err);
-      this.setPhase("waiting_agent_answered");
+  /**
+   * Schedule the next Leg 3 dial from the budget (exponential backoff). Once it is
+   * spent, a reconnect applies the policy action; an initial dial stays failed
+   * (no more automatic redials) until the agent ends the session.
+   */
+  private async retryLeg3(mode: Leg3RetryState["mode"], lastError: string): Promise<void> {
+    if (this.stopped || this.leg3RetryTimer) return;
+    const cfg = this.policy.leg3Retry;
+    const used = this.leg3Retry?.mode === mode ? this.leg3Retry.attempt : 0;
+
+    if (used >= cfg.maxAttempts) {
+      this.leg3Retry = {
+        mode,
+        attempt: used,
+        maxAttempts: cfg.maxAttempts,
+        nextAttemptAt: null,
+        lastError,
+        exhausted: true,
+      };
+      this.emit("leg3Retry", this.leg3Retry);
+      console.warn("[agent-dial]", `Leg 3 ${mode} budget spent after ${used} redial(s)`);
+      if (mode === "reconnect") {
+        await this.endSession(
+          "leg3_reconnect",
+          cfg.action,
+          `${LEG_LABELS.leg3} did not come back after ${used} redial${used === 1 ? "" : "s"}: ${lastError}`
+        );
+      } else {
+        this.machine.setLeg("leg3", "failed", `gave up after ${used} redial(s)`);
+      }
       return;
     }
+
+    const attempt = used + 1;
+    const delay = Math.min(cfg.baseDelayMs * 2 ** (attempt - 1), cfg.maxDelayMs);
+    this.leg3Retry = {
+      mode,
+      attempt,
+      maxAttempts: cfg.maxAttempts,
+      nextAttemptAt: Date.now() + delay,
+      lastError,
+      exhausted: false,
+    };
+    this.emit("leg3Retry", this.leg3Retry);
+    console.info("[agent-dial]", `Leg 3 ${mode} redial ${attempt}/${cfg.maxAttempts} in ${delay} ms`);
+
+    this.leg3RetryTimer = window.setTimeout(() => {
+      this.leg3RetryTimer = undefined;
+      if (this.stopped || !this.agentReady || !this.lastStartParams || !this.leg3Retry) return;
+      this.leg3Retry = { ...this.leg3Retry, nextAttemptAt: null };
+      this.emit("leg3Retry", this.leg3Retry);
+      void this.tryDialLeg3WithCandidates(this.lastStartParams);
+    }, delay);
+  }
+
+  private clearLeg3Retry() {
+    if (this.leg3RetryTimer) {
+      window.clearTimeout(this.leg3RetryTimer);
+      this.leg3RetryTimer = undefined;
+    }
+    if (this.leg3Retry) {
+      this.leg3Retry = null;
+      this.emit("leg3Retry", null);
+    }
+  }
+
+  /** Play the configured Leg 1 DTMF steps in order; stops early if the session ends. */
+  private async playLeg1Dtmf(steps: DtmfStep[]): Promise<void> {
+    for (const step of steps) {
+      if (step.delayMs && step.delayMs > 0) {
+        await new Promise((resolve) => window.setTimeout(resolve, step.delayMs));
+      }
+      if (this.stopped) return;
+      try {
+        console.info("[agent-dial]", "Leg 1 DTMF ->", step.digits);
+        await this.sendDtmf("leg1", step.digits);
+      } catch (err) {
+        console.warn("[agent-dial] Leg 1 DTMF failed; aborting sequence", err);
+        this.emit("error", err instanceof Error ? err : new Error(String(err)));
+        return;
+      }
+    }
+  }
+
+  /**
+   * Dial the recorder over RTMP as a streaming participant. It never keeps the
+   * conference alive on its own and is torn down with the session (disconnect_all).
+   */
+  private async dialRecordingLeg(params: StartParams): Promise<void> {
+    if (!this.token || !params.recordingUrl) return;
+    this.recordingDialed = true;
+    this.machine.setLeg("recording", "dialing");
+    try {
+      const created = await this.client.dial(
+        this.token,
+        params.sessionAlias,
+        params.recordingUrl,
+        "rtmp",
+        {
+          role: "GUEST",
+          callType: "video",
+          sourceDisplayName: params.sessionAlias,
+          streaming: true,
+          keepConferenceAlive: "keep_conference_alive_never",
+        }
+      );
+      if (created[0]) {
+        this.legUuids.recording = created[0];
+        this.persist();
+        this.machine.setLeg("recording", "ringing");
+      } else {
+        console.warn("[agent-dial]", "recording leg: no participant created");
+        this.machine.setLeg("recording", "failed", "no participant created");
+      }
+    } catch (err) {
+      console.warn("[agent-dial] recording leg dial failed", err);
+      this.machine.setLeg("recording", "failed", err instanceof Error ? err.message : String(err));
+      this.emit("error", err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  /** Derive core leg sub-states (ringing/connected/disconnected) from the roster. */
+  private syncLegStates(participants: Participant[]) {
+    const legs: CallLeg[] = ["leg0", "leg1", "leg2", "leg3", "recording"];
+    for (const leg of legs) {
+      const mine = participants.filter((p) => this.legOf(p) === leg);
+      const state = this.machine.leg(leg);
+      if (state === "retired") continue;
+      const next: LegState | null = mine.some((p) => p.isConnected)
+        ? "connected"
+        : mine.length > 0
+        ? "ringing"
+        : state === "connected"
+        ? "disconnected"
+        : null;
+      if (next && next !== state) this.machine.setLeg(leg, next);
+    }
+  }
+
+  /** Mark extras connected once seen up; forget extras that have left the roster. */
+  private trackExtraLegs(participants: Participant[]) {
+    const byId = new Map(participants.map((p) => [p.id, p] as const));
+    for (const [id, extra] of this.extraLegs) {
+      const p = byId.get(id);
+      if (p?.isConnected && !extra.connected) {
+        extra.connected = true;
+      } else if (!p && (extra.connected || Date.now() - extra.addedAt > 5000)) {
+        console.info("[agent-dial]", "extra participant left", extra.label);
+        this.extraLegs.delete(id);
+      }
+    }
   }
 
   /** Retire Leg 0: stop SSE, release token; do NOT disconnect the conference. */
@@ -451,7 +1491,8 @@ export class Orchestrator {
       this.stopped = true;
 
       // we intentionally DO NOT call disconnect_all; just end the widget session
-      this.setPhase("ended");
+      this.machine.setLeg("leg0", "retired");
+      this.setPhase("ended", "Leg 0 retired");
       console.info("[agent-dial]", "Leg 0 retired; widget ended, conference persists.");
     } catch (err) {
       console.warn("[agent-dial] retireLeg0 failed (non-fatal)", err);
@@ -468,80 +1509,115 @@ export class Orchestrator {
   private async onRoster(roster: RosterSnapshot, params: StartParams) {
     if (this.stopped) return;
 
+    this.lastRoster = roster;
     this.emit("roster", roster);
 
     const participants = roster.participants;
     const now = Date.now();
-    const connectedCount = participants.filter((p) => p.isConnected).length;
+    this.trackExtraLegs(participants);
+
+    // only core legs count towards presence: the recording leg and ad-hoc extras
+    // must never keep a session alive on their own
+    const connectedCount = participants.filter((p) => {
+      if (!p.isConnected) return false;
+      const leg = this.legOf(p);
+      return leg !== "recording" && leg !== "extra";
+    }).length;
+
+    const policy = this.policy;
 
     // Dormancy grace
     if (this.lastConnectedCount > 0 && connectedCount === 0) {
-      this.sseGraceUntil = now + 8000;
+      this.sseGraceUntil = now + policy.sseGraceMs;
     }
     this.lastConnectedCount = connectedCount;
 
     // "min two" rule (any 2 connected legs keep the session alive at start)
-    if (!this.minTwoArmed && connectedCount >= 2) {
-      this.minTwoArmed = true;
-      this.belowTwoSince = null;
-    }
-    if (this.minTwoArmed && connectedCount < 2 && now >= this.sseGraceUntil) {
-      if (this.belowTwoSince == null) this.belowTwoSince = now;
-      if (now - this.belowTwoSince > 1500) {
-        try {
-          await this.hardEnd();
-        } catch (err) {
-          console.warn("[agent-dial] hardEnd failed (ignored, min-two path)", err);
+    if (policy.minTwo.enabled) {
+      if (!this.minTwoArmed && connectedCount >= 2) {
+        this.minTwoArmed = true;
+        this.belowTwoSince = null;
+        this.decide("min_two", "armed", "two core legs connected");
+      }
+      if (this.minTwoArmed && connectedCount < 2 && now >= this.sseGraceUntil) {
+        if (this.belowTwoSince == null) this.belowTwoSince = now;
+        if (now - this.belowTwoSince > policy.minTwo.afterMs) {
+          await this.endSession(
+            "min_two",
+            policy.minTwo.action,
+            `fewer than two core legs connected for over ${policy.minTwo.afterMs} ms`
+          );
+          return;
         }
-        return;
+      } else {
+        this.belowTwoSince = null;
       }
-    } else {
-      this.belowTwoSince = null;
     }
 
     // Leg presence checks
-    const leg1SipUp = participants.some(
-      (p) => p.isConnected === true && matchesSipAlias(p, params.contactCenterAlias)
-    );
+    const leg1Alias = this.leg1Alias ?? params.contactCenterAlias;
+    const leg1SipUp = participants.some((p) => p.isConnected === true && matchesSipAlias(p, leg1Alias));
     const leg2WebrtcUp =
       participants.some((p) => p.kind === "webrtc" && p.isConnected === true && p.isVideo === true) ||
       participants.some((p) => p.kind === "webrtc" && p.isConnected === true);
-    const leg3SipUp = participants.some(
-      (p) => p.isConnected === true && matchesSipAlias(p, params.secondDialAlias)
-    );
-    const leg0ApiUp = participants.some((p) => p.isConnected === true && p.kind === "other");
+    this.settleLeg3Ring(participants);
+    const leg3SipUp = participants.some((p) => p.isConnected === true && this.legOf(p) === "leg3");
+    const leg0ApiUp = participants.some((p) => p.isConnected === true && this.legOf(p) === "leg0");
+
+    // IVR navigation: play Leg 1 DTMF once the SIP leg connects
+    if (leg1SipUp && !this.leg1DtmfPlayed && params.leg1Dtmf?.length) {
+      this.leg1DtmfPlayed = true;
+      this.persist();
+      void this.playLeg1Dtmf(params.leg1Dtmf);
+    }
 
     // Agent readiness = Leg 1 (SIP) + Leg 2 (WebRTC)
     if (!this.agentReady && leg1SipUp && leg2WebrtcUp) {
       this.agentReady = true;
+      this.clearAgentWait();
       this.ensureLeg3IfAgentReady();
     }
 
     // "Active" when Leg 2 (agent WebRTC) and Leg 3 (customer VTC) are both up
-    if (leg2WebrtcUp && leg3SipUp && this.phase !== "active") {
-      this.setPhase("active");
+    this.syncLegStates(participants);
+
+    // active is only reachable from dialing_leg3 / reconnecting (see PHASE_TRANSITIONS)
+    if (leg2WebrtcUp && leg3SipUp && (this.phase === "dialing_leg3" || this.phase === "reconnecting")) {
+      this.clearLeg3Retry();
+      this.setPhase("active", this.phase === "reconnecting" ? `${LEG_LABELS.leg3} reconnected` : undefined);
       this.emit("active", { active: true, roster });
+      if (params.layoutPreset && this.layoutPresetId === null) {
+        this.applyLayout(params.layoutPreset).catch((err) =>
+          console.warn("[agent-dial] auto layout failed (non-fatal)", err)
+        );
+      }
+      if (params.recordingUrl && !this.recordingDialed) {
+        void this.dialRecordingLeg(params);
+      }
     }
 
-    // 4-legs / 20s rule: once all legs are up for 20s, arm kill on agent drop
+    // agent-drop rule: once all legs are up for armAfterMs, act when the agent side drops
     const fourLegsUp = leg0ApiUp && leg1SipUp && leg2WebrtcUp && leg3SipUp;
-    if (fourLegsUp) {
-      if (this.fullyEngagedSince == null) {
-        this.fullyEngagedSince = now;
-      } else if (!this.killOnAgentDropArmed && now - this.fullyEngagedSince >= 20000) {
-        this.killOnAgentDropArmed = true;
+    if (policy.agentDrop.enabled) {
+      if (fourLegsUp) {
+        if (this.fullyEngagedSince == null) {
+          this.fullyEngagedSince = now;
+        } else if (!this.killOnAgentDropArmed && now - this.fullyEngagedSince >= policy.agentDrop.armAfterMs) {
+          this.killOnAgentDropArmed = true;
+          this.decide("agent_drop", "armed", `all four legs up for ${policy.agentDrop.armAfterMs} ms`);
+        }
+      } else {
+        if (!this.killOnAgentDropArmed) this.fullyEngagedSince = null;
       }
-    } else {
-      if (!this.killOnAgentDropArmed) this.fullyEngagedSince = null;
-    }
 
-    if (this.killOnAgentDropArmed && (!leg1SipUp || !leg2WebrtcUp)) {
-      try {
-        await this.hardEnd();
-      } catch (err) {
-        console.warn("[agent-dial] hardEnd failed (ignored, agent-drop path)", err);
+      if (this.killOnAgentDropArmed && (!leg1SipUp || !leg2WebrtcUp)) {
+        await this.endSession(
+          "agent_drop",
+          policy.agentDrop.action,
+          `${!leg1SipUp ? LEG_LABELS.leg1 : LEG_LABELS.leg2} dropped after the call was established`
+        );
+        return;
       }
-      return;
     }
 
     // Track continuous 4-legs uptime for Leg 0 retirement
@@ -551,23 +1627,37 @@ export class Orchestrator {
       this.fourLegsSince = null;
     }
 
-    // Retire Leg 0 once 4 legs have been stable long enough and we still have core hosts
+    // Retire Leg 0 once 4 legs have been stable long enough and we still have core hosts.
+    // Hold off while an extra is still being dialed/ringing: after retirement nobody
+    // would be left to track (or drop) it. An operator still using the in-call
+    // controls holds it too (they all need Leg 0).
+    const extraRinging =
+      this.pendingExtraDestinations.size > 0 ||
+      Array.from(this.extraLegs.values()).some((x) => !x.connected);
     if (
+      policy.leg0Retirement.enabled &&
       !this.leg0Retired &&
+      !extraRinging &&
+      (this.lastControlAt === null || now - this.lastControlAt >= policy.leg0Retirement.afterMs) &&
       fourLegsUp &&
       this.fourLegsSince !== null &&
-      now - this.fourLegsSince >= this.retireAfterMs &&
+      now - this.fourLegsSince >= policy.leg0Retirement.afterMs &&
       leg1SipUp &&
       leg2WebrtcUp
     ) {
-      await this.retireLeg0();
+      await this.endSession(
+        "leg0_retirement",
+        "end_widget",
+        `all four legs stable for ${policy.leg0Retirement.afterMs} ms; conference handed off`
+      );
       return;
     }
 
     // Idle termination
-    if (connectedCount === 0) {
+    if (policy.idleStop.enabled && connectedCount === 0) {
       if (this.inactiveSince == null) this.inactiveSince = now;
-      if (now - this.inactiveSince > 3000 && now >= this.sseGraceUntil) {
+      if (now - this.inactiveSince > policy.idleStop.afterMs && now >= this.sseGraceUntil) {
+        this.decide("idle_stop", "stop", `no core legs connected for over ${policy.idleStop.afterMs} ms`);
         this.stop();
       }
     } else {
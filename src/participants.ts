@@ -0,0 +1,128 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/participants.ts
+// Single mapper from Pexip participant payloads (SSE participant_* events and
+// the REST /participants list) to our Participant model, plus roster helpers.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import type { Participant, ParticipantProtocol, RosterSnapshot } from "./types";
+
+// ------- small typed helpers (no any) -------
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+function toBool(v: unknown): boolean {
+  if (typeof v === "boolean") return v;
+  if (typeof v === "number") return v !== 0;
+  if (typeof v === "string") {
+    const s = v.toLowerCase();
+    return s === "1" || s === "true" || s === "yes" || s === "on";
+  }
+  return false;
+}
+function getString(v: unknown): string | undefined {
+  return typeof v === "string" && v.length > 0 ? v : undefined;
+}
+function hasMediaType(list: unknown, type: "audio" | "video"): boolean {
+  if (!Array.isArray(list)) return false;
+  return list.some((item) => isRecord(item) && getString(item["type"])?.toLowerCase() === type);
+}
+
+const PROTOCOLS: Record<string, ParticipantProtocol> = {
+  webrtc: "webrtc",
+  web: "webrtc",
+  browser: "webrtc",
+  sip: "sip",
+  sips: "sip",
+  h323: "h323",
+  mssip: "mssip",
+  rtmp: "rtmp",
+  rtmps: "rtmp",
+  teams: "teams",
+  api: "api",
+};
+
+function toProtocol(v: unknown): ParticipantProtocol {
+  return PROTOCOLS[getString(v)?.toLowerCase() ?? ""] ?? "other";
+}
+
+/** Pexip `start_time` is epoch seconds (sometimes fractional); we use ms. */
+function toEpochMs(v: unknown): number | undefined {
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN;
+  if (!Number.isFinite(n) || n <= 0) return undefined;
+  return n < 1e12 ? Math.round(n * 1000) : Math.round(n);
+}
+
+/** Participant UUID from any payload shape (create/update/delete, REST list). */
+export function participantIdOf(raw: Record<string, unknown>): string | undefined {
+  return getString(raw["participant_uuid"]) || getString(raw["uuid"]) || getString(raw["id"]);
+}
+
+/** Map a raw Pexip participant payload into our Participant model. */
+export function toParticipant(raw: unknown): Participant | null {
+  if (!isRecord(raw)) return null;
+  const id = participantIdOf(raw);
+  if (!id) return null;
+
+  const protocol = toProtocol(raw["protocol"]);
+  const kind: Participant["kind"] =
+    protocol === "webrtc" ? "webrtc" : protocol === "sip" ? "sip" : "other";
+
+  const role = getString(raw["role"])?.toLowerCase();
+  const direction = getString(raw["call_direction"])?.toLowerCase();
+
+  const isConnected =
+    toBool(raw["is_connected"]) ||
+    toBool(raw["connected"]) ||
+    (raw["is_connected"] === undefined && raw["connected"] === undefined);
+
+  const isVideo =
+    toBool(raw["has_video"]) ||
+    toBool(raw["video"]) ||
+    toBool(raw["is_video"]) ||
+    toBool(raw["is_video_call"]) ||
+    hasMediaType(raw["streams"], "video") ||
+    hasMediaType(raw["media"], "video");
+
+  return {
+    id,
+    kind,
+    protocol,
+    displayName:
+      getString(raw["display_name"]) || getString(raw["name"]) || getString(raw["participant_name"]),
+    role: role === "chair" ? "chair" : role === "guest" ? "guest" : undefined,
+    callDirection: direction === "in" ? "in" : direction === "out" ? "out" : undefined,
+    isVideo,
+    isConnected,
+    isAudioMuted: toBool(raw["is_muted"]) || toBool(raw["is_audio_muted"]),
+    isVideoMuted: toBool(raw["is_video_muted"]),
+    isPresenting: toBool(raw["is_presenting"]),
+    connectedAt: toEpochMs(raw["start_time"]),
+    uri: getString(raw["uri"]),
+    localAlias: getString(raw["local_alias"]),
+    disconnectReason: getString(raw["disconnect_reason"]),
+  };
+}
+
+/** Map a REST /participants response ({ result: [...] } or a bare array). */
+export function participantsFromResponse(raw: unknown): Participant[] | null {
+  const list = isRecord(raw) && Array.isArray(raw["result"]) ? raw["result"] : raw;
+  if (!Array.isArray(list)) return null;
+  const out: Participant[] = [];
+  for (const item of list) {
+    const p = toParticipant(item);
+    if (p) out.push(p);
+  }
+  return out;
+}
+
+export function rosterCounts(participants: Participant[]): RosterSnapshot["counts"] {
+  return {
+    webrtcVideo: participants.filter((p) => p.kind === "webrtc" && p.isConnected && p.isVideo).length,
+    sipVideo: participants.filter((p) => p.kind === "sip" && p.isConnected && p.isVideo).length,
+  };
+}
+
+/** Calls the conference placed or received over a signalling protocol (not WebRTC/API). */
+export function isSignalledCall(p: Participant): boolean {
+  return p.protocol === "sip" || p.protocol === "h323" || p.protocol === "mssip" || p.protocol === "teams";
+}
@@ -1,19 +1,43 @@
 // src/pexipClient.ts
 // Pexip Client API wrapper for Client REST API v2 (alias-scoped endpoints).
 // - Sends token in header "token"
-// - keepalive token refresh with rotation
-// - Dial always sends protocol: "auto" and supports keep_conference_alive
+// - token lifetime handled by TokenManager (expiry-driven refresh, rotation events)
+// - Dial sends the requested protocol (default "auto") and supports keep_conference_alive
 // - Custom SIP headers are sent in JSON field `custom_sip_headers`
-
-import type { PexipConfig } from "./types";
+// - Participant-scoped call control (mute, video mute, disconnect, role, spotlight, DTMF)
+// - Conference layout control via transform_layout
+// - In-conference text messages (shown on endpoints that support them)
+// - All calls go through pexipRequest (typed errors + per-call retry policy)
+// - request_token fails over across the node pool; later calls stay pinned to
+//   the node that issued the token
+
+import type { DialProtocol, LayoutTransform, PexipConfig } from "./types";
+import { PexipFailedError, isPexipError, type PexipCallType } from "./pexipErrors";
+import { rankNodes } from "./pexipNodes";
+import { TokenManager, type IssuedToken, type TokenRotation } from "./tokenManager";
+import { pexipRequest, resolveRetryPolicy } from "./pexipRequest";
 
 export type KeepConferenceAliveMode =
   | "keep_conference_alive"
   | "keep_conference_alive_if_multiple"
   | "keep_conference_alive_never";
 
+export type ParticipantRole = "HOST" | "GUEST";
+
+/** Participant-scoped commands (POST /participants/{uuid}/{command}). */
+type ParticipantCommand =
+  | "mute"
+  | "unmute"
+  | "video_muted"
+  | "video_unmuted"
+  | "disconnect"
+  | "role"
+  | "spotlighton"
+  | "spotlightoff"
+  | "dtmf";
+
 export type DialOptions = {
-  role?: "HOST" | "GUEST";
+  role?: ParticipantRole;
   callType?: "audio" | "video" | "video-only";
   sourceDisplayName?: string;
   localAlias?: string;
@@ -24,163 +48,229 @@ export type DialOptions = {
   customHeaders?: Record<string, string>;
   /** Maps to JSON key keep_conference_alive */
   keepConferenceAlive?: KeepConferenceAliveMode;
+  /** Mark as a streaming/recording participant (hidden from layouts); maps to streaming: "yes" */
+  streaming?: boolean;
 };
 
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === "object" && v !== null;
 }
 
-function redactHeaders(h?: HeadersInit) {
-  if (!h || typeof h !== "object") return h;
-  const obj = { ...(h as Record<string, string>) };
-  if ("Authorization" in obj) obj.Authorization = "<redacted>";
-  if ("token" in obj) obj.token = "<redacted>";
-  if ("pin" in obj) obj.pin = "<redacted>";
-  return obj;
+/** Extract { token, expires } from a request_token/refresh_token response. */
+function parseIssuedToken(json: unknown): IssuedToken | null {
+  const result = isRecord(json) && isRecord(json.result) ? json.result : {};
+  const token = typeof result.token === "string" && result.token.length > 0 ? result.token : "";
+  if (!token) return null;
+
+  const expiresRaw = result.expires;
+  const expires =
+    typeof expiresRaw === "number"
+      ? expiresRaw
+      : typeof expiresRaw === "string"
+      ? Number(expiresRaw) || undefined
+      : undefined;
+
+  return { token, expires };
 }
 
 export class PexipClient {
-  private keepAlive?: { timer: number; token: string; alias: string };
+  private tokens: TokenManager;
+
+  // display name/PIN of the last request_token (reused when a token must be re-requested)
+  private lastIssue: { displayName?: string; pin?: string } = {};
+
+  // node that issued the current token (all later calls are pinned to it)
+  private activeNodeUrl: string | null = null;
 
-  constructor(private cfg: PexipConfig) {}
+  constructor(private cfg: PexipConfig) {
+    this.tokens = new TokenManager({
+      refresh: (token, alias) => this.refreshToken(token, alias),
+      // stay on the pinned node: the SSE stream and legs live there
+      reissue: (alias) =>
+        this.issueToken(alias, this.lastIssue.displayName, this.lastIssue.pin, [this.nodeUrl()]),
+    });
+  }
 
-  private h(extra?: HeadersInit): HeadersInit {
-    return { "Content-Type": "application/json", ...(extra || {}) };
+  /** Node currently in use: the token-issuing node once pinned, else the primary. */
+  public nodeUrl(): string {
+    return this.activeNodeUrl ?? this.cfg.nodeUrl.trim().replace(/\/+$/, "");
+  }
+
+  private h(extra?: Record<string, string>): Record<string, string> {
+    const bearer = this.cfg.bearerToken?.();
+    return {
+      "Content-Type": "application/json",
+      ...(this.cfg.extraHeaders || {}),
+      ...(bearer ? { Authorization: `Bearer ${bearer}` } : {}),
+      ...(extra || {}),
+    };
+  }
+
+  private conferenceUrl(alias: string, path: string, node = this.nodeUrl()): string {
+    return `${node}/api/client/v2/conferences/${encodeURIComponent(alias)}/${path}`;
+  }
+
+  /** Run one REST call through the shared request layer with this call type's retry policy. */
+  private request(
+    call: PexipCallType,
+    method: "GET" | "POST",
+    url: string,
+    headers: Record<string, string>,
+    body?: unknown
+  ): Promise<unknown> {
+    return pexipRequest({
+      call,
+      method,
+      url,
+      headers,
+      body,
+      retry: resolveRetryPolicy(call, this.cfg.retry),
+    });
   }
 
   /** Expose current token (rotated) to callers that need it for diagnostics. */
   public currentToken(): string | undefined {
-    return this.keepAlive?.token;
+    return this.tokens.current();
   }
 
-  /** Start/Restart token keepalive for a given alias. */
-  private startKeepAlive(initialToken: string, alias: string) {
-    this.stopKeepAlive();
-
-    let liveToken = initialToken;
-    const intervalMs = 55_000;
+  /** Subscribe to token rotations (refresh or re-request). Returns an unsubscribe fn. */
+  public onTokenRotated(fn: (r: TokenRotation) => void) {
+    return this.tokens.onRotate(fn);
+  }
 
-    // initialize before first tick
-    this.keepAlive = { timer: 0, token: liveToken, alias };
+  /** Subscribe to token loss (refresh and re-request both failed). */
+  public onTokenLost(fn: (err: unknown) => void) {
+    return this.tokens.onLost(fn);
+  }
 
-    const tick = async () => {
-      try {
-        const url = `${this.cfg.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(
-          alias
-        )}/refresh_token`;
-        const headers = this.h({ token: liveToken });
-        console.info("[agent-dial]", "refresh_token -> POST", url);
-        const res = await fetch(url, { method: "POST", headers });
-        if (!res.ok) {
-          const text = await res.text().catch(() => "");
-          console.error("[agent-dial]", "token refresh failed", res.status, text);
-          return; // try again on next interval
-        }
-        const jsonUnknown = (await res.json().catch(() => ({}))) as unknown;
-        if (!isRecord(jsonUnknown)) return;
-        const result = isRecord(jsonUnknown.result) ? jsonUnknown.result : {};
-        const newToken =
-          typeof result.token === "string" && result.token.length > 0 ? result.token : "";
-
-        if (newToken && newToken !== liveToken) {
-          liveToken = newToken;
-          if (this.keepAlive) this.keepAlive.token = liveToken;
-          console.debug("[agent-dial]", "token refresh ok (rotated)");
-        } else {
-          console.debug("[agent-dial]", "token refresh ok");
-        }
-      } catch (e) {
-        console.warn("[agent-dial]", "token refresh network issue (will retry)", e);
-      }
-    };
+  /** Refresh the managed token now (rotations and losses are published as usual). */
+  public checkToken(): Promise<void> {
+    return this.tokens.refreshNow();
+  }
 
-    // fire once immediately, then schedule
-    void tick();
-    const timer = window.setInterval(tick, intervalMs);
-    this.keepAlive.timer = timer;
+  /** Stop refreshing without calling the node (the token was already invalidated server-side). */
+  public forgetToken() {
+    this.tokens.stop();
   }
 
-  private stopKeepAlive() {
-    if (this.keepAlive?.timer) {
-      window.clearInterval(this.keepAlive.timer);
-    }
-    this.keepAlive = undefined;
+  /** Refresh a token on the pinned node; returns the (possibly rotated) token and expiry. */
+  async refreshToken(token: string, alias: string): Promise<IssuedToken> {
+    const json = await this.request(
+      "refresh_token",
+      "POST",
+      this.conferenceUrl(alias, "refresh_token"),
+      this.h({ token })
+    );
+    return parseIssuedToken(json) ?? { token };
   }
 
   /**
    * Request a client token for a given conference alias.
    * For PIN-protected conferences, provide PIN in HTTP header "pin".
+   * Throws PexipPinError when the PIN is missing or rejected.
+   * The token is then kept alive by the TokenManager until released.
    */
-  async requestToken(alias: string, displayName?: string, pin?: string): Promise<{ token: string; expires?: number }> {
-    const url = `${this.cfg.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(
-      alias
-    )}/request_token`;
-    const headers: HeadersInit = this.h(pin?.trim() ? { pin: pin.trim() } : {});
-    const body = { display_name: displayName || "Agent Dialer" };
-
-    console.info("[agent-dial]", "request_token -> POST", url);
-    console.debug("[agent-dial]", "request_token headers=", redactHeaders(headers), "body=", body);
+  async requestToken(alias: string, displayName?: string, pin?: string): Promise<IssuedToken> {
+    this.tokens.stop();
+    const issued = await this.issueToken(alias, displayName, pin, await rankNodes(this.cfg));
+    this.lastIssue = { displayName, pin };
+    this.tokens.start(alias, issued);
+    return issued;
+  }
 
-    let res: Response;
+  /**
+   * Take over a token saved before a page reload: pin its node, refresh it, and
+   * fall back to a new request_token on that node if it has expired. The result
+   * is then managed like a freshly issued token. The PIN is never persisted, so a
+   * PIN-protected conference needs it passed here again (else PexipPinError).
+   */
+  async resumeToken(
+    alias: string,
+    nodeUrl: string,
+    token: string,
+    displayName?: string,
+    pin?: string
+  ): Promise<IssuedToken> {
+    this.tokens.stop();
+    this.activeNodeUrl = nodeUrl.trim().replace(/\/+$/, "");
+    this.lastIssue = { displayName, pin };
+    let issued: IssuedToken;
     try {
-      res = await fetch(url, { method: "POST", headers, body: JSON.stringify(body) });
-    } catch (e) {
-      console.error("[agent-dial]", "request_token network error:", e);
-      throw new Error("Network error calling request_token (CORS/TLS/DNS/firewall?)");
+      issued = await this.refreshToken(token, alias);
+    } catch (err) {
+      if (!isPexipError(err) || err.kind !== "token_expired") throw err;
+      console.warn("[agent-dial]", "saved token expired -> re-requesting on", this.activeNodeUrl);
+      issued = await this.issueToken(alias, displayName, pin, [this.nodeUrl()]);
     }
+    this.tokens.start(alias, issued);
+    return issued;
+  }
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      console.error("[agent-dial]", "request_token HTTP", res.status, "body=", text);
-      throw new Error(`request_token failed: ${res.status} ${text || res.statusText}`);
-    }
+  /** POST request_token against the given nodes in order; pins the first that issues a token. */
+  private async issueToken(
+    alias: string,
+    displayName: string | undefined,
+    pin: string | undefined,
+    nodes: string[]
+  ): Promise<IssuedToken> {
+    const headers = this.h(pin?.trim() ? { pin: pin.trim() } : {});
+    const body = { display_name: displayName || "Agent Dialer" };
+    let lastErr: unknown = null;
 
-    const jsonUnknown = (await res.json().catch(() => ({}))) as unknown;
-    if (!isRecord(jsonUnknown)) throw new Error("Unexpected response to request_token");
+    for (const node of nodes) {
+      let json: unknown;
+      try {
+        json = await this.request(
+          "request_token",
+          "POST",
+          this.conferenceUrl(alias, "request_token", node),
+          headers,
+          body
+        );
+      } catch (err) {
+        lastErr = err;
+        // only node/transport trouble is worth another node; PIN/policy errors are final
+        if (isPexipError(err) && err.retryable) {
+          console.warn("[agent-dial]", "request_token failed on", node, "-> trying next node", err);
+          continue;
+        }
+        throw err;
+      }
 
-    const result = isRecord(jsonUnknown.result) ? jsonUnknown.result : {};
-    const token = typeof result.token === "string" ? result.token : "";
-    const expiresRaw = result.expires;
+      const issued = parseIssuedToken(json);
+      if (!issued) {
+        console.error("[agent-dial]", "request_token returned no token:", json);
+        throw new PexipFailedError("request_token", "no token returned. Check alias or policy.");
+      }
 
-    if (!token) {
-      console.error("[agent-dial]", "request_token returned no token:", jsonUnknown);
-      throw new Error("request_token returned no token. Check alias or policy.");
+      this.activeNodeUrl = node;
+      console.info("[agent-dial]", "token issued by node", node);
+      return issued;
     }
 
-    this.startKeepAlive(token, alias);
-
-    const expires =
-      typeof expiresRaw === "number"
-        ? expiresRaw
-        : typeof expiresRaw === "string"
-        ? Number(expiresRaw) || undefined
-        : undefined;
-
-    return { token, expires };
+    throw lastErr ?? new PexipFailedError("request_token", "no Pexip node configured");
   }
 
   /**
    * Conference -> dial out (alias-scoped, header "token").
    * Returns: array of created participant UUIDs (empty array means no route was created).
    *
-   * NOTE: We will **always** send protocol: "auto" to let the node select the best route.
+   * NOTE: protocol defaults to "auto" (node routing rules pick the route); pass an explicit
+   * protocol ("h323", "mssip", "rtmp", ...) to force it.
    * IMPORTANT: custom headers go into `custom_sip_headers` which is the required format for dial API call.
    */
   async dial(
     token: string,
     alias: string,
     destination: string,
-    _protocol?: "auto" | "sip" | "h323" | "mssip" | "rtmp" | "webrtc",
+    protocol: DialProtocol = "auto",
     opts?: DialOptions
   ): Promise<string[]> {
     const liveToken = this.currentToken() || token;
-    const url = `${this.cfg.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(
-      alias
-    )}/dial`;
 
     const payload: Record<string, unknown> = {
       destination,
-      protocol: "auto", // <- enforce AUTO every time
+      protocol,
     };
     if (opts?.role) payload.role = opts.role;
     if (opts?.callType) payload.call_type = opts.callType;
@@ -198,26 +288,16 @@ export class PexipClient {
       payload.keep_conference_alive = opts.keepConferenceAlive;
     }
 
-    const headers = this.h({ token: liveToken });
-
-    console.info("[agent-dial]", "dial -> POST", url);
-    console.debug("[agent-dial]", "dial headers=", redactHeaders(headers), "payload=", payload);
-
-    let res: Response;
-    try {
-      res = await fetch(url, { method: "POST", headers, body: JSON.stringify(payload) });
-    } catch (e) {
-      console.error("[agent-dial]", "dial network error:", e);
-      throw new Error("Network/CORS error on dial.");
-    }
+    if (opts?.streaming) payload.streaming = "yes";
 
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      console.error("[agent-dial]", "dial HTTP", res.status, "body=", text);
-      throw new Error(`dial failed: ${res.status} ${text || res.statusText}`);
-    }
+    const json = await this.request(
+      "dial",
+      "POST",
+      this.conferenceUrl(alias, "dial"),
+      this.h({ token: liveToken }),
+      payload
+    );
 
-    const json: unknown = await res.json().catch(() => ({}));
     if (isRecord(json) && Array.isArray(json.result)) {
       return json.result.filter((x) => typeof x === "string") as string[];
     }
@@ -230,56 +310,144 @@ export class PexipClient {
 
   async listParticipants(token: string, alias: string): Promise<unknown> {
     const liveToken = this.currentToken() || token;
-    const url = `${this.cfg.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(
-      alias
-    )}/participants`;
-    const headers = this.h({ token: liveToken });
-
-    console.info("[agent-dial]", "participants -> GET", url);
-    const res = await fetch(url, { headers });
-    if (!res.ok) throw new Error(`participants failed: ${res.status}`);
-    return await res.json();
+    return this.request(
+      "participants",
+      "GET",
+      this.conferenceUrl(alias, "participants"),
+      this.h({ token: liveToken })
+    );
+  }
+
+  /** POST a participant-scoped command; throws a PexipError on failure. */
+  private async participantCommand(
+    token: string,
+    alias: string,
+    participantUuid: string,
+    command: ParticipantCommand,
+    body?: Record<string, unknown>,
+    call: PexipCallType = "participant_command"
+  ): Promise<void> {
+    const liveToken = this.currentToken() || token;
+    await this.request(
+      call,
+      "POST",
+      this.conferenceUrl(alias, `participants/${encodeURIComponent(participantUuid)}/${command}`),
+      this.h({ token: liveToken }),
+      body
+    );
+  }
+
+  /** Mute or unmute a participant's audio (what the conference hears from them). */
+  async setAudioMuted(token: string, alias: string, participantUuid: string, muted: boolean) {
+    await this.participantCommand(token, alias, participantUuid, muted ? "mute" : "unmute");
+  }
+
+  /** Stop or resume a participant's video into the conference. */
+  async setVideoMuted(token: string, alias: string, participantUuid: string, muted: boolean) {
+    await this.participantCommand(
+      token,
+      alias,
+      participantUuid,
+      muted ? "video_muted" : "video_unmuted"
+    );
+  }
+
+  /** Disconnect a single participant; the rest of the conference stays up. */
+  async disconnectParticipant(token: string, alias: string, participantUuid: string) {
+    await this.participantCommand(token, alias, participantUuid, "disconnect");
+  }
+
+  /** Change a participant's role (HOST -> "chair", GUEST -> "guest"). */
+  async setRole(token: string, alias: string, participantUuid: string, role: ParticipantRole) {
+    await this.participantCommand(token, alias, participantUuid, "role", {
+      role: role === "HOST" ? "chair" : "guest",
+    });
+  }
+
+  /** Pin (or unpin) a participant to the main stage for everyone. */
+  async setSpotlight(token: string, alias: string, participantUuid: string, on: boolean) {
+    await this.participantCommand(
+      token,
+      alias,
+      participantUuid,
+      on ? "spotlighton" : "spotlightoff"
+    );
+  }
+
+  /** Send DTMF digits (0-9, *, #, A-D) into a participant's call, e.g. to drive an IVR. */
+  async sendDtmf(token: string, alias: string, participantUuid: string, digits: string) {
+    // own call type: never retried, a repeat would replay digits the IVR already got
+    await this.participantCommand(token, alias, participantUuid, "dtmf", { digits }, "dtmf");
+  }
+
+  /** Change the conference layout (applies to all participants, incl. SIP/H.323 room systems). */
+  async transformLayout(token: string, alias: string, transform: LayoutTransform): Promise<void> {
+    const liveToken = this.currentToken() || token;
+    const transforms: Record<string, unknown> = {};
+    if (transform.layout) transforms.layout = transform.layout;
+    if (transform.hostLayout) transforms.host_layout = transform.hostLayout;
+    if (transform.guestLayout) transforms.guest_layout = transform.guestLayout;
+    if (transform.enableOverlayText !== undefined) {
+      transforms.enable_overlay_text = transform.enableOverlayText;
+    }
+    if (transform.enableActiveSpeakerIndication !== undefined) {
+      transforms.enable_active_speaker_indication = transform.enableActiveSpeakerIndication;
+    }
+
+    await this.request(
+      "transform_layout",
+      "POST",
+      this.conferenceUrl(alias, "transform_layout"),
+      this.h({ token: liveToken }),
+      { transforms }
+    );
   }
 
-  /** Best-effort "disconnect all" for the session + stop keepalive. */
+  /** Send a plain-text chat message to everyone in the conference. */
+  async sendMessage(token: string, alias: string, text: string): Promise<void> {
+    const liveToken = this.currentToken() || token;
+    await this.request(
+      "message",
+      "POST",
+      this.conferenceUrl(alias, "message"),
+      this.h({ token: liveToken }),
+      { type: "text/plain", payload: text }
+    );
+  }
+
+  /** Best-effort "disconnect all" for the session + stop token refresh. */
   async disconnectAll(token: string, alias: string) {
-    this.stopKeepAlive();
     const liveToken = this.currentToken() || token;
+    this.tokens.stop();
 
     try {
-      const url = `${this.cfg.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(
-        alias
-      )}/disconnect`;
-      const res = await fetch(url, {
-        method: "POST",
-        headers: this.h({ token: liveToken }),
-      });
-      if (res.ok) return;
-      // non-OK is tolerated here
-    } catch {
-      // ignore best-effort errors
+      await this.request(
+        "disconnect",
+        "POST",
+        this.conferenceUrl(alias, "disconnect"),
+        this.h({ token: liveToken })
+      );
+    } catch (e) {
+      // tolerated: best-effort teardown
+      console.warn("[agent-dial]", "disconnect failed (ignored)", e);
     }
   }
 
-  /** Release ONLY the initial API user client token (do NOT end the conference). Stops keepalive first. */
+  /** Release ONLY the initial API user client token (do NOT end the conference). Stops token refresh first. */
   async releaseToken(token: string, alias: string): Promise<void> {
-    this.stopKeepAlive();
     const liveToken = this.currentToken() || token;
-
-    const url = `${this.cfg.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(
-      alias
-    )}/release_token`;
+    this.tokens.stop();
 
     try {
-      const res = await fetch(url, { method: "POST", headers: this.h({ token: liveToken }) });
-      if (!res.ok) {
-        const body = await res.text().catch(() => "");
-        console.warn("[agent-dial]", "release_token non-OK", res.status, body);
-      } else {
-        console.info("[agent-dial]", "release_token ok");
-      }
+      await this.request(
+        "release_token",
+        "POST",
+        this.conferenceUrl(alias, "release_token"),
+        this.h({ token: liveToken })
+      );
+      console.info("[agent-dial]", "release_token ok");
     } catch (e) {
-      console.warn("[agent-dial]", "release_token network error (ignored)", e);
+      console.warn("[agent-dial]", "release_token failed (ignored)", e);
     }
   }
 }
@@ -0,0 +1,112 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/pexipErrors.ts
+// Typed errors for Pexip Client REST API calls. Callers branch on `kind`
+// (or instanceof) instead of parsing message text.
+// ───────────────────────────────────────────────────────────────────────────────
+
+/** Logical Pexip REST call, used for logging, errors and per-call retry policy. */
+export type PexipCallType =
+  | "request_token"
+  | "refresh_token"
+  | "release_token"
+  | "dial"
+  | "participants"
+  | "participant_command"
+  | "dtmf"
+  | "transform_layout"
+  | "message"
+  | "disconnect";
+
+export type PexipErrorKind =
+  | "network"        // fetch rejected: CORS/TLS/DNS/firewall/offline
+  | "http"           // non-2xx status from the node
+  | "failed"         // 2xx but payload { status: "failed" }
+  | "token_expired"  // token rejected by the node (needs a new token)
+  | "pin";           // request_token rejected: PIN required or wrong
+
+export class PexipError extends Error {
+  readonly kind: PexipErrorKind;
+  readonly call: PexipCallType;
+
+  constructor(kind: PexipErrorKind, call: PexipCallType, message: string) {
+    super(message);
+    this.name = "PexipError";
+    this.kind = kind;
+    this.call = call;
+  }
+
+  /** Whether repeating the same request may succeed (transient transport/node issue). */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+export class PexipNetworkError extends PexipError {
+  readonly cause: unknown;
+
+  constructor(call: PexipCallType, cause: unknown) {
+    super("network", call, `Network error calling ${call} (CORS/TLS/DNS/firewall?)`);
+    this.name = "PexipNetworkError";
+    this.cause = cause;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class PexipHttpError extends PexipError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(call: PexipCallType, status: number, body: string, statusText = "") {
+    super("http", call, `${call} failed: ${status} ${body || statusText}`.trim());
+    this.name = "PexipHttpError";
+    this.status = status;
+    this.body = body;
+  }
+
+  /** 429 and 5xx (e.g. 502 from a node behind a load balancer) are worth retrying. */
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+export class PexipFailedError extends PexipError {
+  readonly result: unknown;
+
+  constructor(call: PexipCallType, result: unknown) {
+    super(
+      "failed",
+      call,
+      `${call} failed: ${typeof result === "string" ? result : JSON.stringify(result)}`
+    );
+    this.name = "PexipFailedError";
+    this.result = result;
+  }
+}
+
+export class PexipTokenExpiredError extends PexipError {
+  readonly status: number;
+
+  constructor(call: PexipCallType, status: number) {
+    super("token_expired", call, `${call} rejected the session token (${status}); a new token is required`);
+    this.name = "PexipTokenExpiredError";
+    this.status = status;
+  }
+}
+
+export class PexipPinError extends PexipError {
+  /** true when no PIN was sent and the conference requires one */
+  readonly pinRequired: boolean;
+
+  constructor(call: PexipCallType, pinRequired: boolean) {
+    super("pin", call, pinRequired ? "This conference requires a PIN." : "The conference PIN was rejected.");
+    this.name = "PexipPinError";
+    this.pinRequired = pinRequired;
+  }
+}
+
+export function isPexipError(err: unknown): err is PexipError {
+  return err instanceof PexipError;
+}
@@ -0,0 +1,73 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/pexipNodes.ts
+// Conferencing Node pool: priority ordering + lightweight health probe.
+// The probe hits /api/client/v2/status (used by load balancers): 200 = in
+// service, 503 = maintenance mode, network error/timeout = unreachable.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import type { PexipConfig, PexipNode } from "./types";
+
+export type NodeHealth = "up" | "maintenance" | "unreachable";
+
+const DEFAULT_PROBE_TIMEOUT_MS = 2500;
+
+function trimUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Ordered, de-duplicated node URLs: `nodeUrl` first (it is what the UI shows),
+ * then `nodes` by ascending priority (lower = preferred), keeping list order on ties.
+ */
+export function orderedNodeUrls(cfg: PexipConfig): string[] {
+  const extra: PexipNode[] = (cfg.nodes ?? [])
+    .map((n, i) => ({ url: trimUrl(n.url), priority: n.priority ?? i + 1 }))
+    .filter((n) => n.url.length > 0)
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+  const out: string[] = [];
+  for (const url of [trimUrl(cfg.nodeUrl), ...extra.map((n) => n.url)]) {
+    if (url && !out.includes(url)) out.push(url);
+  }
+  return out;
+}
+
+/** Probe one node; never throws. */
+export async function probeNode(
+  nodeUrl: string,
+  timeoutMs = DEFAULT_PROBE_TIMEOUT_MS
+): Promise<NodeHealth> {
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    const res = await fetch(`${nodeUrl}/api/client/v2/status`, {
+      method: "GET",
+      cache: "no-store",
+      signal: ctrl.signal,
+    });
+    // older builds may not expose /status (404): reachable is good enough
+    return res.status === 503 ? "maintenance" : "up";
+  } catch {
+    return "unreachable";
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Candidate order for request_token: healthy nodes first (in priority order),
+ * then the rest as a last resort in case the probe itself is blocked.
+ */
+export async function rankNodes(cfg: PexipConfig): Promise<string[]> {
+  const urls = orderedNodeUrls(cfg);
+  if (urls.length <= 1) return urls;
+
+  const health = await Promise.all(
+    urls.map((u) => probeNode(u, cfg.healthProbeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS))
+  );
+  urls.forEach((u, i) => console.info("[agent-dial]", "node probe", u, health[i]));
+
+  const healthy = urls.filter((_, i) => health[i] === "up");
+  const rest = urls.filter((_, i) => health[i] !== "up");
+  return [...healthy, ...rest];
+}
@@ -0,0 +1,149 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/pexipRequest.ts
+// Shared request layer for the Pexip Client REST API:
+// - one fetch path with consistent "[agent-dial]" logging (secrets redacted)
+// - maps failures to typed errors (see pexipErrors.ts)
+// - per-call-type retry with exponential backoff + jitter
+// ───────────────────────────────────────────────────────────────────────────────
+
+import {
+  PexipError,
+  PexipFailedError,
+  PexipHttpError,
+  PexipNetworkError,
+  PexipPinError,
+  PexipTokenExpiredError,
+  type PexipCallType,
+} from "./pexipErrors";
+
+export type RetryPolicy = {
+  /** extra attempts after the first one (0 = no retry) */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type RetryPolicies = Partial<Record<PexipCallType, Partial<RetryPolicy>>>;
+
+/**
+ * Defaults per call type. Dial is NOT retried by default: a dial that timed out
+ * may still have created a participant, and a retry would ring the endpoint twice.
+ * DTMF and chat messages are not retried for the same reason (the node may already
+ * have played the digits / delivered the message).
+ */
+export const DEFAULT_RETRY_POLICIES: Record<PexipCallType, RetryPolicy> = {
+  request_token: { retries: 2, baseDelayMs: 500, maxDelayMs: 4000 },
+  refresh_token: { retries: 3, baseDelayMs: 1000, maxDelayMs: 8000 },
+  release_token: { retries: 1, baseDelayMs: 500, maxDelayMs: 2000 },
+  dial: { retries: 0, baseDelayMs: 1000, maxDelayMs: 4000 },
+  participants: { retries: 2, baseDelayMs: 500, maxDelayMs: 4000 },
+  participant_command: { retries: 1, baseDelayMs: 500, maxDelayMs: 2000 },
+  dtmf: { retries: 0, baseDelayMs: 500, maxDelayMs: 2000 },
+  transform_layout: { retries: 1, baseDelayMs: 500, maxDelayMs: 2000 },
+  message: { retries: 0, baseDelayMs: 500, maxDelayMs: 2000 },
+  disconnect: { retries: 1, baseDelayMs: 500, maxDelayMs: 2000 },
+};
+
+export function resolveRetryPolicy(call: PexipCallType, overrides?: RetryPolicies): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICIES[call], ...(overrides?.[call] ?? {}) };
+}
+
+export type PexipRequestInit = {
+  call: PexipCallType;
+  method: "GET" | "POST";
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  retry: RetryPolicy;
+};
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+export function redactHeaders(h?: Record<string, string>) {
+  if (!h) return h;
+  const obj = { ...h };
+  if ("Authorization" in obj) obj.Authorization = "<redacted>";
+  if ("token" in obj) obj.token = "<redacted>";
+  if ("pin" in obj) obj.pin = "<redacted>";
+  return obj;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const base = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  return base + Math.floor(Math.random() * Math.max(100, base / 4));
+}
+
+/** Map a non-2xx response to the most specific error type. */
+function toHttpError(call: PexipCallType, res: Response, text: string, sentPin: boolean): PexipError {
+  if (res.status === 401 || res.status === 403) {
+    if (call === "request_token" && /pin/i.test(text)) {
+      return new PexipPinError(call, !sentPin);
+    }
+    if (call !== "request_token" && /token/i.test(text)) {
+      return new PexipTokenExpiredError(call, res.status);
+    }
+  }
+  return new PexipHttpError(call, res.status, text, res.statusText);
+}
+
+async function attempt(req: PexipRequestInit): Promise<unknown> {
+  let res: Response;
+  try {
+    res = await fetch(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body === undefined ? undefined : JSON.stringify(req.body),
+    });
+  } catch (e) {
+    throw new PexipNetworkError(req.call, e);
+  }
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    console.error("[agent-dial]", req.call, "HTTP", res.status, "body=", text);
+    throw toHttpError(req.call, res, text, "pin" in req.headers);
+  }
+
+  const json: unknown = await res.json().catch(() => ({}));
+  if (isRecord(json) && json.status === "failed") {
+    console.error("[agent-dial]", req.call, "status=failed", json.result);
+    throw new PexipFailedError(req.call, json.result);
+  }
+  return json;
+}
+
+/**
+ * Perform a Pexip REST call with the given retry policy.
+ * Resolves with the parsed JSON body ({} when empty); rejects with a PexipError.
+ */
+export async function pexipRequest(req: PexipRequestInit): Promise<unknown> {
+  console.info("[agent-dial]", `${req.call} -> ${req.method}`, req.url);
+  console.debug(
+    "[agent-dial]",
+    `${req.call} headers=`,
+    redactHeaders(req.headers),
+    "body=",
+    req.body ?? "(none)"
+  );
+
+  for (let n = 0; ; n++) {
+    try {
+      return await attempt(req);
+    } catch (err) {
+      const retryable = err instanceof PexipError && err.retryable;
+      if (!retryable || n >= req.retry.retries) throw err;
+      const wait = backoffDelay(req.retry, n);
+      console.warn(
+        "[agent-dial]",
+        `${req.call} failed (${(err as PexipError).message}); retry ${n + 1}/${req.retry.retries} in ${wait}ms`
+      );
+      await sleep(wait);
+    }
+  }
+}
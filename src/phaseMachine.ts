@@ -0,0 +1,105 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/phaseMachine.ts
+// Orchestrator phase state machine: legal transitions, guards, per-leg
+// sub-states and a timestamped timeline of everything that changed.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import type { CallLeg, LegState, LegStatus, OrchestratorPhase, TimelineEntry } from "./types";
+
+/**
+ * Legal transitions. Any phase may end; "ended"/"error" may start a new session.
+ * Leg failures are leg sub-states, not phase changes (a failed Leg 3 stays in
+ * dialing_leg3 while its retry is pending); only a mid-call Leg 3 drop has its
+ * own phase, "reconnecting".
+ */
+export const PHASE_TRANSITIONS: Record<OrchestratorPhase, OrchestratorPhase[]> = {
+  idle: ["getting_token", "ended"],
+  getting_token: ["dialing_leg1", "error", "ended"],
+  dialing_leg1: ["waiting_agent_answered", "dialing_leg3", "error", "ended"],
+  waiting_agent_answered: ["dialing_leg3", "error", "ended"],
+  dialing_leg3: ["active", "error", "ended"],
+  active: ["reconnecting", "error", "ended"],
+  reconnecting: ["active", "error", "ended"],
+  ended: ["getting_token"],
+  error: ["getting_token", "ended"],
+};
+
+/** Extra condition for entering a phase; returns why it is blocked, or null. */
+export type PhaseGuard = (from: OrchestratorPhase, to: OrchestratorPhase) => string | null;
+
+const HISTORY_LIMIT = 200;
+
+export class PhaseMachine {
+  private current: OrchestratorPhase = "idle";
+  private legStates: Partial<Record<CallLeg, LegStatus>> = {};
+  private timeline: TimelineEntry[] = [];
+
+  constructor(
+    private guard: PhaseGuard = () => null,
+    private onEntry: (entry: TimelineEntry) => void = () => {}
+  ) {}
+
+  get phase(): OrchestratorPhase {
+    return this.current;
+  }
+
+  /** Why `to` is not reachable from the current phase, or null if it is. */
+  blockedReason(to: OrchestratorPhase): string | null {
+    if (!PHASE_TRANSITIONS[this.current].includes(to)) return `no transition ${this.current} -> ${to}`;
+    return this.guard(this.current, to);
+  }
+
+  /** Move to `to` if legal; same-phase requests are a no-op. Returns true when the phase changed. */
+  transition(to: OrchestratorPhase, reason?: string): boolean {
+    if (to === this.current) return false;
+    const blocked = this.blockedReason(to);
+    if (blocked) {
+      console.warn("[agent-dial]", `phase transition rejected: ${blocked}`);
+      return false;
+    }
+    const from = this.current;
+    this.current = to;
+    this.record({ at: Date.now(), scope: "phase", from, to, reason });
+    return true;
+  }
+
+  /** Re-enter a phase saved before a page reload (bypasses the transition table). */
+  restore(to: OrchestratorPhase, reason = "re-attached after reload") {
+    const from = this.current;
+    this.current = to;
+    this.record({ at: Date.now(), scope: "phase", from, to, reason });
+  }
+
+  /** Update a leg's sub-state; unchanged state (and detail) is ignored. */
+  setLeg(leg: CallLeg, state: LegState, detail?: string) {
+    const prev = this.legStates[leg];
+    if (prev && prev.state === state && prev.detail === detail) return;
+    const at = Date.now();
+    this.legStates[leg] = { state, since: at, detail };
+    this.record({ at, scope: leg, from: prev?.state ?? "idle", to: state, reason: detail });
+  }
+
+  leg(leg: CallLeg): LegState {
+    return this.legStates[leg]?.state ?? "idle";
+  }
+
+  legs(): Partial<Record<CallLeg, LegStatus>> {
+    return { ...this.legStates };
+  }
+
+  history(): TimelineEntry[] {
+    return [...this.timeline];
+  }
+
+  /** Start a new session: clear leg sub-states and the timeline (the phase is kept). */
+  reset() {
+    this.legStates = {};
+    this.timeline = [];
+  }
+
+  private record(entry: TimelineEntry) {
+    this.timeline.push(entry);
+    if (this.timeline.length > HISTORY_LIMIT) this.timeline.shift();
+    this.onEntry(entry);
+  }
+}
@@ -0,0 +1,49 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/rosterDelta.ts
+// Participant/roster diffing shared by the SSE layer and the Orchestrator.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import type { Participant, ParticipantFieldChanges, RosterDelta } from "./types";
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // shallow structural compare for array/object fields
+  return typeof a === "object" && typeof b === "object" && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Field-level changes from `prev` to `next` (empty object = no change). */
+export function diffParticipant(prev: Participant, next: Participant): ParticipantFieldChanges {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]) as Set<keyof Participant>;
+  keys.forEach((k) => {
+    if (!sameValue(prev[k], next[k])) changes[k] = { from: prev[k], to: next[k] };
+  });
+  return changes as ParticipantFieldChanges;
+}
+
+export function hasChanges(changes: ParticipantFieldChanges): boolean {
+  return Object.keys(changes).length > 0;
+}
+
+/** Joined/left/changed deltas between two rosters (matched by participant id). */
+export function diffRoster(
+  prev: Iterable<Participant>,
+  next: Iterable<Participant>,
+  at = Date.now()
+): RosterDelta[] {
+  const before = new Map(Array.from(prev, (p) => [p.id, p] as const));
+  const deltas: RosterDelta[] = [];
+
+  for (const p of next) {
+    const old = before.get(p.id);
+    before.delete(p.id);
+    if (!old) {
+      deltas.push({ type: "joined", participant: p, at });
+      continue;
+    }
+    const changes = diffParticipant(old, p);
+    if (hasChanges(changes)) deltas.push({ type: "changed", participant: p, changes, at });
+  }
+  before.forEach((p) => deltas.push({ type: "left", participant: p, at }));
+  return deltas;
+}
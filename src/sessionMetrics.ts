@@ -0,0 +1,178 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/sessionMetrics.ts
+// Per-session metrics for operational reporting. The Orchestrator feeds every
+// timeline entry (phase and leg sub-state changes), each Leg 3 dial and each
+// lifecycle decision into a SessionMetrics recorder; when the session ends it
+// is turned into one SessionSummary record, which can be posted to a reporting
+// endpoint (a local collector or a Genesys Cloud webhook / data action).
+// ───────────────────────────────────────────────────────────────────────────────
+
+import { isTerminalDecision, type LifecycleDecision } from "./lifecyclePolicy";
+import type { DialProtocol, SessionLeg3Attempt, SessionSummary, TimelineEntry } from "./types";
+
+export class SessionMetrics {
+  private alias: string | null = null;
+  private startedAt = 0;
+  private resumed = false;
+
+  private tokenRequestedAt: number | null = null;
+  private tokenIssuedAt: number | null = null;
+  private leg1FirstDialAt: number | null = null;
+  private leg1Dials = 0;
+  private leg1RingingAt: number | null = null;
+  private leg1ConnectedAt: number | null = null;
+  private agentAnsweredAt: number | null = null;
+  private leg3FirstDialAt: number | null = null;
+  private leg3ConnectedAt: number | null = null;
+  private leg3Attempts: SessionLeg3Attempt[] = [];
+  private leg3Destination: string | null = null;
+  private leg3Reconnects = 0;
+  private activeSince: number | null = null;
+  private activeMs = 0;
+  private terminal: LifecycleDecision | null = null;
+  private conferenceEnded = false;
+
+  /** Start measuring a new (or re-attached) session; drops whatever was recorded before. */
+  begin(alias: string, resumed = false) {
+    this.alias = alias;
+    this.startedAt = Date.now();
+    this.resumed = resumed;
+    this.tokenRequestedAt = null;
+    this.tokenIssuedAt = null;
+    this.leg1FirstDialAt = null;
+    this.leg1Dials = 0;
+    this.leg1RingingAt = null;
+    this.leg1ConnectedAt = null;
+    this.agentAnsweredAt = null;
+    this.leg3FirstDialAt = null;
+    this.leg3ConnectedAt = null;
+    this.leg3Attempts = [];
+    this.leg3Destination = null;
+    this.leg3Reconnects = 0;
+    this.activeSince = null;
+    this.activeMs = 0;
+    this.terminal = null;
+    this.conferenceEnded = false;
+  }
+
+  /** Feed one timeline entry (see PhaseMachine). */
+  record(e: TimelineEntry) {
+    if (!this.alias) return;
+    switch (e.scope) {
+      case "leg0":
+        if (e.to === "dialing") this.tokenRequestedAt ??= e.at;
+        if (e.to === "connected") this.tokenIssuedAt ??= e.at;
+        return;
+      case "leg1":
+        if (e.to === "dialing") {
+          this.leg1FirstDialAt ??= e.at;
+          this.leg1Dials++;
+          // an overflow redial restarts the ring
+          this.leg1RingingAt = null;
+          this.leg1ConnectedAt = null;
+        }
+        if (e.to === "ringing") this.leg1RingingAt ??= e.at;
+        if (e.to === "connected") this.leg1ConnectedAt ??= e.at;
+        return;
+      case "leg3":
+        if (e.to === "dialing") this.leg3FirstDialAt ??= e.at;
+        if (e.to === "connected") this.leg3ConnectedAt ??= e.at;
+        return;
+      case "phase":
+        // dialing_leg3 is only entered once the agent (Leg 1 + Leg 2) is up
+        if (e.to === "dialing_leg3") this.agentAnsweredAt ??= e.at;
+        if (e.to === "reconnecting") this.leg3Reconnects++;
+        if (e.from === "active" && this.activeSince !== null) {
+          this.activeMs += e.at - this.activeSince;
+          this.activeSince = null;
+        }
+        if (e.to === "active") this.activeSince = e.at;
+        return;
+      default:
+        return;
+    }
+  }
+
+  /** One Leg 3 dial request; `error` when the node did not create a call. */
+  leg3Dial(destination: string, protocol: DialProtocol, error?: string) {
+    if (!this.alias) return;
+    this.leg3FirstDialAt ??= Date.now();
+    this.leg3Attempts.push({ destination, protocol, at: Date.now(), ...(error ? { error } : {}) });
+  }
+
+  /** The Leg 3 destination that connected. */
+  leg3Connected(destination: string) {
+    this.leg3Destination = destination;
+  }
+
+  /** The widget tore the conference down (disconnect_all). */
+  endConference() {
+    this.conferenceEnded = true;
+  }
+
+  /** The first terminal decision explains why the session ended. */
+  decision(d: LifecycleDecision) {
+    if (this.alias && !this.terminal && isTerminalDecision(d)) this.terminal = d;
+  }
+
+  /**
+   * Close the session and build its summary; null when nothing was being
+   * measured (already finished, or never started).
+   */
+  finish(outcome: SessionSummary["outcome"], reason?: string): SessionSummary | null {
+    const alias = this.alias;
+    if (!alias) return null;
+    this.alias = null;
+
+    const endedAt = Date.now();
+    if (this.activeSince !== null) this.activeMs += endedAt - this.activeSince;
+    this.activeSince = null;
+
+    const span = (from: number | null, to: number | null) => (from !== null && to !== null ? to - from : null);
+    const endReason =
+      this.terminal?.reason ?? reason ?? (outcome === "error" ? "Session failed" : "Ended from the widget");
+    // without a terminal rule, an "ended" session the widget did not tear down was let go (soft reset, other tab)
+    const handedOff = this.terminal
+      ? this.terminal.outcome === "end_widget"
+      : outcome === "ended" && !this.conferenceEnded;
+
+    return {
+      alias,
+      startedAt: this.startedAt,
+      endedAt,
+      outcome,
+      endRule: this.terminal?.rule ?? null,
+      endReason,
+      resumed: this.resumed,
+      handedOff,
+      timeToTokenMs: span(this.tokenRequestedAt, this.tokenIssuedAt),
+      leg1RingMs: span(this.leg1RingingAt, this.leg1ConnectedAt),
+      leg1Dials: this.leg1Dials,
+      agentAnswerMs: span(this.leg1FirstDialAt, this.agentAnsweredAt),
+      leg3Attempts: [...this.leg3Attempts],
+      leg3Destination: this.leg3Destination,
+      leg3ConnectMs: span(this.leg3FirstDialAt, this.leg3ConnectedAt),
+      leg3Reconnects: this.leg3Reconnects,
+      activeMs: this.activeMs,
+      totalMs: endedAt - this.startedAt,
+    };
+  }
+}
+
+/**
+ * POST a summary as JSON to a reporting endpoint. `keepalive` lets the request
+ * outlive the page when the widget is closed right after the call; `bearer`
+ * authenticates against Genesys Cloud endpoints.
+ */
+export async function postSessionSummary(url: string, summary: SessionSummary, bearer?: string): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    keepalive: true,
+    headers: {
+      "Content-Type": "application/json",
+      ...(bearer ? { Authorization: `Bearer ${bearer}` } : {}),
+    },
+    body: JSON.stringify(summary),
+  });
+  if (!res.ok) throw new Error(`Session summary upload failed: HTTP ${res.status}`);
+}
@@ -0,0 +1,99 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/sessionStore.ts
+// Live-session snapshot in sessionStorage, so a widget reload (Genesys iframe
+// reload, the "Reset" button) can re-attach to a conference that is still
+// running instead of leaving it unmanaged. Written by the Orchestrator on every
+// phase/leg/token change and removed when the session ends.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import type { Leg3Candidate } from "./leg3Resolver";
+import type { AgentAnswerWait, CallLeg, OrchestratorPhase, StartParams } from "./types";
+
+export type PersistedSession = {
+  version: 1;
+  alias: string;
+  /** node that issued the token; everything after a reload stays pinned to it */
+  nodeUrl: string;
+  token: string;
+  /** epoch ms after which the token is no longer valid (a re-request is needed) */
+  tokenExpiresAt: number;
+  phase: OrchestratorPhase;
+  legUuids: Partial<Record<CallLeg, string>>;
+  /** alias Leg 1 is dialed to (differs from params.contactCenterAlias after an overflow) */
+  leg1Alias: string | null;
+  /** the Leg 3 destination that connected (redialed on reconnect) */
+  leg3Candidate: Leg3Candidate | null;
+  /** Leg 1 IVR digits already sent (a reload between connect and DTMF must still send them) */
+  leg1DtmfPlayed: boolean;
+  agentWait: AgentAnswerWait | null;
+  /** start parameters without the PIN */
+  params: StartParams;
+  /** the conference needed a PIN: re-attaching with an expired token asks for it again */
+  pinProtected: boolean;
+  savedAt: number;
+};
+
+const STORAGE_KEY = "agent-dial.session";
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+/** sessionStorage, or null where it is blocked (sandboxed iframe, privacy mode). */
+function storage(): Storage | null {
+  try {
+    return window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: PersistedSession) {
+  try {
+    storage()?.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (err) {
+    console.warn("[agent-dial]", "could not persist session (ignored)", err);
+  }
+}
+
+/** The session saved before a reload, or null (none, unreadable or from another version). */
+export function loadSession(): PersistedSession | null {
+  let raw: string | null = null;
+  try {
+    raw = storage()?.getItem(STORAGE_KEY) ?? null;
+  } catch {
+    return null;
+  }
+  if (!raw) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (
+      isRecord(parsed) &&
+      parsed.version === 1 &&
+      typeof parsed.alias === "string" &&
+      typeof parsed.nodeUrl === "string" &&
+      typeof parsed.token === "string" &&
+      typeof parsed.phase === "string" &&
+      typeof parsed.leg1DtmfPlayed === "boolean" &&
+      typeof parsed.pinProtected === "boolean" &&
+      isRecord(parsed.params) &&
+      isRecord(parsed.legUuids)
+    ) {
+      return parsed as PersistedSession;
+    }
+  } catch {
+    // fall through: corrupt entry
+  }
+  console.warn("[agent-dial]", "discarding unreadable persisted session");
+  clearSession();
+  return null;
+}
+
+export function clearSession() {
+  try {
+    storage()?.removeItem(STORAGE_KEY);
+  } catch {
+    // nothing to clear
+  }
+}
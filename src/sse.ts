@@ -1,13 +1,35 @@
 // src/sse.ts
 // Pexip SSE client (Client REST API v2)
-// - Uses EventSource with ?token= on the URL (browsers can't set headers on SSE)
+// - Transport per deployment (see sseTransport.ts): EventSource with ?token= on
+//   the URL, or streamed fetch with the token as a header and Last-Event-ID resume
 // - Emits normalized roster snapshots matching src/types.ts
 // - Self-heals: periodic emits, dormancy reconnect, backoff with jitter
 // - Lint-clean (no any), typed helpers, optional reconnectNow/updateAuth
-
-import type { Participant, RosterSnapshot } from "./types";
+// - Optional handlers for non-roster events (chat messages, conference state,
+//   server-side disconnect) and roster deltas (joined/left/changed)
+
+import type {
+  ChatMessage,
+  ConferenceState,
+  Participant,
+  ParticipantChanged,
+  ParticipantJoined,
+  ParticipantLeft,
+  RosterDelta,
+  RosterSnapshot,
+} from "./types";
+import { diffParticipant, diffRoster, hasChanges } from "./rosterDelta";
+import { participantIdOf, rosterCounts, toParticipant } from "./participants";
+import {
+  openEventSourceStream,
+  openFetchStream,
+  type SSEStream,
+  type SSEStreamCallbacks,
+  type SSETransportKind,
+} from "./sseTransport";
 
 type PexipEventName =
+  | "participant_create"
   | "participant_update"
   | "participant_delete"
   | "participant_sync_begin"
@@ -20,23 +42,28 @@ type PexipEventName =
   | "disconnect"
   | string;
 
-type RawParticipant = {
-  participant_uuid?: unknown;
-  uuid?: unknown;
-  id?: unknown;
-  display_name?: unknown;
-  name?: unknown;
-  participant_name?: unknown;
-  protocol?: unknown;
-  is_connected?: unknown;
-  connected?: unknown;
-  has_video?: unknown;
-  video?: unknown;
-  is_video?: unknown;
-  streams?: unknown;
-  media?: unknown;
+/** Optional callbacks for non-roster events. */
+export type PexipSSEHandlers = {
+  onMessage?: (msg: ChatMessage) => void;
+  onConference?: (state: ConferenceState) => void;
+  /** the node ended our session (`disconnect`); the stream is already closed */
+  onDisconnect?: (reason: string) => void;
+  onParticipantJoined?: (e: ParticipantJoined) => void;
+  onParticipantLeft?: (e: ParticipantLeft) => void;
+  onParticipantChanged?: (e: ParticipantChanged) => void;
 };
 
+function emptyConferenceState(): ConferenceState {
+  return {
+    locked: false,
+    guestsMuted: false,
+    presentationAllowed: true,
+    layout: null,
+    activeSpeakerId: null,
+    stage: [],
+  };
+}
+
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === "object" && v !== null;
 }
@@ -52,55 +79,65 @@ function toBool(v: unknown): boolean {
 function getString(v: unknown): string | undefined {
   return typeof v === "string" && v.length > 0 ? v : undefined;
 }
-function hasMediaType(list: unknown, type: "audio" | "video"): boolean {
-  if (!Array.isArray(list)) return false;
-  return list.some(
-    (item) => isRecord(item) && getString(item["type"])?.toLowerCase() === type
-  );
-}
 
-/** Map a raw Pexip payload into our strong Participant type. */
-function toParticipant(raw: RawParticipant): Participant | null {
-  const id = getString(raw.participant_uuid) || getString(raw.uuid) || getString(raw.id);
-  if (!id) return null;
-
-  const displayName =
-    getString(raw.display_name) ||
-    getString(raw.name) ||
-    getString(raw.participant_name);
-
-  const proto = getString(raw.protocol)?.toLowerCase();
-  const normalized: Participant["kind"] =
-    proto === "webrtc" || proto === "web" || proto === "browser"
-      ? "webrtc"
-      : proto === "sip" || proto === "sips"
-      ? "sip"
-      : "other";
-
-  const isConnected =
-    toBool(raw.is_connected) ||
-    toBool(raw.connected) ||
-    (raw.is_connected === undefined && raw.connected === undefined);
-
-  const hasVideo =
-    toBool(raw.has_video) ||
-    toBool(raw.video) ||
-    toBool(raw.is_video) ||
-    hasMediaType(raw.streams, "video") ||
-    hasMediaType(raw.media, "video");
+let messageSeq = 0;
 
+/** Map a `message_received` payload ({ origin, uuid, type, payload }) to a ChatMessage. */
+function toChatMessage(raw: Record<string, unknown>): ChatMessage | null {
+  const text = getString(raw["payload"]);
+  if (!text) return null;
+  const type = getString(raw["type"]);
+  if (type && type !== "text/plain") return null;
   return {
-    id,
-    displayName,
-    kind: normalized,
-    isConnected,
-    isVideo: hasVideo,
+    id: `in-${Date.now()}-${++messageSeq}`,
+    direction: "in",
+    origin: getString(raw["origin"]) || "Unknown",
+    participantId: getString(raw["uuid"]),
+    text,
+    at: Date.now(),
   };
 }
 
+/** Merge a `conference_update` payload ({ locked, guests_muted, presentation_allowed, ... }). */
+function applyConferenceUpdate(state: ConferenceState, raw: Record<string, unknown>): ConferenceState {
+  return {
+    ...state,
+    locked: raw["locked"] === undefined ? state.locked : toBool(raw["locked"]),
+    guestsMuted: raw["guests_muted"] === undefined ? state.guestsMuted : toBool(raw["guests_muted"]),
+    presentationAllowed:
+      raw["presentation_allowed"] === undefined
+        ? state.presentationAllowed
+        : toBool(raw["presentation_allowed"]),
+  };
+}
+
+/** Merge a `layout` payload ({ view, participants, requested_layout }). */
+function applyLayoutEvent(state: ConferenceState, raw: Record<string, unknown>): ConferenceState {
+  return { ...state, layout: getString(raw["view"]) ?? state.layout };
+}
+
+/** Merge a `stage` payload: [{ participant_uuid, stage_index, vad }, ...]. */
+function applyStageEvent(state: ConferenceState, raw: unknown): ConferenceState {
+  if (!Array.isArray(raw)) return state;
+  const entries = raw
+    .filter(isRecord)
+    .map((e) => ({
+      id: getString(e["participant_uuid"]),
+      index: typeof e["stage_index"] === "number" ? e["stage_index"] : Number.MAX_SAFE_INTEGER,
+    }))
+    .filter((e): e is { id: string; index: number } => !!e.id)
+    .sort((a, b) => a.index - b.index);
+  const stage = entries.map((e) => e.id);
+  return { ...state, stage, activeSpeakerId: stage[0] ?? null };
+}
+
 export class PexipSSE {
-  private es?: EventSource;
+  private stream?: SSEStream;
   private roster = new Map<string, Participant>();
+  // roster before participant_sync_begin; deltas are computed once at sync_end
+  private syncBase: Map<string, Participant> | null = null;
+  private conference: ConferenceState = emptyConferenceState();
+  private handlers: PexipSSEHandlers = {};
 
   // auth
   private alias: string | null = null;
@@ -117,7 +154,19 @@ export class PexipSSE {
   private backoffMs = 2000;
   private firstEventLogged = false;
 
-  constructor(private nodeUrl: string) {}
+  // last `id:` seen; the fetch transport resumes from it after a reconnect
+  private lastEventId: string | null = null;
+
+  constructor(
+    private nodeUrl: string,
+    private bearerToken?: () => string | undefined,
+    private transport: SSETransportKind = "eventsource"
+  ) {}
+
+  /** Pin the stream to the node that issued the token (takes effect on next connect). */
+  setNodeUrl(nodeUrl: string) {
+    this.nodeUrl = nodeUrl;
+  }
 
   /** Update alias/token without reconnecting immediately. */
   updateAuth(alias: string, token: string) {
@@ -130,47 +179,77 @@ export class PexipSSE {
     this.internalReconnect(0, onRoster);
   }
 
-  connect(alias: string, token: string, onRoster: (r: RosterSnapshot) => void) {
+  connect(
+    alias: string,
+    token: string,
+    onRoster: (r: RosterSnapshot) => void,
+    handlers: PexipSSEHandlers = this.handlers
+  ) {
     this.close(); // fully reset timers/stream
 
+    // conference state, roster and resume point survive reconnects, not a new conference
+    if (alias !== this.alias) {
+      this.conference = emptyConferenceState();
+      this.lastEventId = null;
+      this.roster.clear();
+      this.syncBase = null;
+    }
+
+    this.handlers = handlers;
     this.alias = alias;
     this.token = token;
     this.lastEventAt = Date.now();
-    this.backoffMs = 2000;
     this.firstEventLogged = false;
 
-    const url = `${this.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(
-      alias
-    )}/events?token=${encodeURIComponent(token)}`;
-
-    this.es = new EventSource(url);
-
     const emit = () => onRoster(this.toSnapshot());
 
-    this.es.onopen = () => {
-      console.info("[agent-dial]", "SSE open");
+    const upsert = (rec: Record<string, unknown>) => {
+      const p = toParticipant(rec);
+      if (!p) return;
+      const prev = this.roster.get(p.id);
+      this.roster.set(p.id, p);
       this.lastEventAt = Date.now();
-      emit(); // show initial roster immediately
+
+      if (this.syncBase) return;
+      if (!prev) {
+        this.publishDelta({ type: "joined", participant: p, at: this.lastEventAt });
+        return;
+      }
+      const changes = diffParticipant(prev, p);
+      if (hasChanges(changes)) {
+        this.publishDelta({ type: "changed", participant: p, changes, at: this.lastEventAt });
+      }
     };
 
-    this.es.onerror = (ev) => {
-      console.warn("[agent-dial]", "SSE error", ev);
+    const remove = (rec: Record<string, unknown>) => {
+      const id = participantIdOf(rec);
+      this.lastEventAt = Date.now();
+      const prev = id ? this.roster.get(id) : undefined;
+      if (!id || !prev) return;
+      this.roster.delete(id);
+
+      if (this.syncBase) return;
+      this.publishDelta({
+        type: "left",
+        participant: prev,
+        at: this.lastEventAt,
+        reason: getString(rec["disconnect_reason"]) || getString(rec["reason"]),
+      });
     };
 
-    const upsert = (rec: Record<string, unknown>) => {
-      const p = toParticipant(rec as RawParticipant);
-      if (!p) return;
-      this.roster.set(p.id, p);
+    const beginSync = () => {
+      // a sync cut short by a reconnect keeps its original base
+      this.syncBase = this.syncBase ?? new Map(this.roster);
+      this.roster.clear();
       this.lastEventAt = Date.now();
     };
 
-    const remove = (rec: Record<string, unknown>) => {
-      const id =
-        getString((rec as RawParticipant).participant_uuid) ||
-        getString((rec as RawParticipant).uuid) ||
-        getString((rec as RawParticipant).id);
-      if (id) this.roster.delete(id);
+    const endSync = () => {
       this.lastEventAt = Date.now();
+      const base = this.syncBase;
+      this.syncBase = null;
+      if (base) diffRoster(base.values(), this.roster.values(), this.lastEventAt).forEach((d) => this.publishDelta(d));
+      emit();
     };
 
     // --- Named SSE events (preferred) ---
@@ -191,14 +270,10 @@ export class PexipSSE {
       }
     };
 
-    const onUpdateEvent = (evt: MessageEvent<string>) => {
-      const data = evt.data;
-      if (typeof data === "string") parseAndApply(data);
-    };
+    const onUpdateEvent = (dataText: string) => parseAndApply(dataText);
 
-    const onDeleteEvent = (evt: MessageEvent<string>) => {
+    const onDeleteEvent = (dataText: string) => {
       try {
-        const dataText = evt.data;
         const data = JSON.parse(dataText) as unknown;
         if (isRecord(data)) {
           remove(data);
@@ -209,36 +284,118 @@ export class PexipSSE {
       }
     };
 
-    const onSyncBeginEvent = () => {
-      this.roster.clear();
+    const applyMessage = (rec: Record<string, unknown>) => {
       this.lastEventAt = Date.now();
+      const msg = toChatMessage(rec);
+      if (msg) this.handlers.onMessage?.(msg);
+    };
+
+    const onMessageEvent = (dataText: string) => {
+      try {
+        const data = JSON.parse(dataText) as unknown;
+        if (isRecord(data)) applyMessage(data);
+      } catch (e) {
+        console.warn("[agent-dial]", "SSE message_received parse failed", e);
+      }
     };
 
-    const onSyncEndEvent = () => {
+    const updateConference = (next: ConferenceState) => {
       this.lastEventAt = Date.now();
+      this.conference = next;
+      this.handlers.onConference?.(next);
       emit();
     };
 
-    this.es.addEventListener("participant_update", onUpdateEvent as EventListener);
-    this.es.addEventListener("participant_delete", onDeleteEvent as EventListener);
-    this.es.addEventListener("participant_sync_begin", onSyncBeginEvent as EventListener);
-    this.es.addEventListener("participant_sync_end", onSyncEndEvent as EventListener);
+    // terminal: the node dropped our token/participant; do not reconnect
+    const applyDisconnect = (rec: Record<string, unknown>) => {
+      const reason = getString(rec["reason"]) || "Disconnected by the server";
+      console.warn("[agent-dial]", "SSE disconnect event:", reason);
+      this.close();
+      this.alias = null;
+      this.token = null;
+      this.handlers.onDisconnect?.(reason);
+    };
+
+    // our own media call ended; the API session (token) itself is unaffected
+    const applyCallDisconnected = (rec: Record<string, unknown>) => {
+      this.lastEventAt = Date.now();
+      console.info("[agent-dial]", "SSE call_disconnected:", getString(rec["reason"]) ?? "(no reason)");
+    };
+
+    const parseRecord = (dataText: string, name: PexipEventName): Record<string, unknown> | null => {
+      try {
+        const data = JSON.parse(dataText) as unknown;
+        return isRecord(data) ? data : null;
+      } catch (e) {
+        console.warn("[agent-dial]", `SSE ${name} parse failed`, e);
+        return null;
+      }
+    };
+
+    const onConferenceUpdateEvent = (dataText: string) => {
+      const rec = parseRecord(dataText, "conference_update");
+      if (rec) updateConference(applyConferenceUpdate(this.conference, rec));
+    };
+
+    const onLayoutEvent = (dataText: string) => {
+      const rec = parseRecord(dataText, "layout");
+      if (rec) updateConference(applyLayoutEvent(this.conference, rec));
+    };
+
+    const onStageEvent = (dataText: string) => {
+      try {
+        updateConference(applyStageEvent(this.conference, JSON.parse(dataText) as unknown));
+      } catch (e) {
+        console.warn("[agent-dial]", "SSE stage parse failed", e);
+      }
+    };
+
+    const onCallDisconnectedEvent = (dataText: string) => {
+      applyCallDisconnected(parseRecord(dataText, "call_disconnected") ?? {});
+    };
+
+    const onDisconnectEvent = (dataText: string) => {
+      applyDisconnect(parseRecord(dataText, "disconnect") ?? {});
+    };
+
+    const onSyncBeginEvent = () => beginSync();
+
+    const onSyncEndEvent = () => endSync();
+
+    const named: Record<string, (dataText: string) => void> = {
+      participant_create: onUpdateEvent,
+      participant_update: onUpdateEvent,
+      participant_delete: onDeleteEvent,
+      participant_sync_begin: onSyncBeginEvent,
+      participant_sync_end: onSyncEndEvent,
+      message_received: onMessageEvent,
+      conference_update: onConferenceUpdateEvent,
+      layout: onLayoutEvent,
+      stage: onStageEvent,
+      call_disconnected: onCallDisconnectedEvent,
+      disconnect: onDisconnectEvent,
+    };
 
     // --- Fallback: untyped messages ---
-    this.es.onmessage = (evt: MessageEvent<string>) => {
+    const onUntyped = (dataText: string) => {
       try {
-        const parsed = JSON.parse(evt.data) as unknown;
+        const parsed = JSON.parse(dataText) as unknown;
         if (!isRecord(parsed)) return;
 
         const name = getString(parsed["event"]) as PexipEventName | undefined;
         const payload = isRecord(parsed["data"]) ? parsed["data"] : parsed;
 
+        if (name === "stage") {
+          updateConference(applyStageEvent(this.conference, parsed["data"]));
+          return;
+        }
+
         switch (name) {
           case "participant_sync_begin":
-            this.roster.clear();
-            this.lastEventAt = Date.now();
+            beginSync();
             return;
 
+          case "participant_create":
           case "participant_update":
             if (isRecord(payload)) {
               upsert(payload);
@@ -254,21 +411,65 @@ export class PexipSSE {
             return;
 
           case "participant_sync_end":
-            this.lastEventAt = Date.now();
-            emit();
+            endSync();
+            return;
+
+          case "message_received":
+            if (isRecord(payload)) applyMessage(payload);
+            return;
+
+          case "conference_update":
+            updateConference(applyConferenceUpdate(this.conference, payload));
+            return;
+
+          case "layout":
+            updateConference(applyLayoutEvent(this.conference, payload));
+            return;
+
+          case "call_disconnected":
+            applyCallDisconnected(payload);
+            return;
+
+          case "disconnect":
+            applyDisconnect(payload);
             return;
 
           default:
-            if (isRecord(payload) && (payload["participant_uuid"] || payload["uuid"] || payload["id"])) {
+            if (participantIdOf(payload)) {
               upsert(payload);
               emit();
             }
         }
       } catch (e) {
-        console.warn("[agent-dial]", "SSE message parse failed", e, evt.data);
+        console.warn("[agent-dial]", "SSE message parse failed", e, dataText);
       }
     };
 
+    // --- Open the stream ---
+    const stream = this.openStream(alias, token, Object.keys(named), {
+      onOpen: () => {
+        console.info("[agent-dial]", `SSE open (${this.transport})`);
+        this.lastEventAt = Date.now();
+        this.backoffMs = 2000;
+        emit(); // show initial roster immediately
+      },
+      onEvent: (name, dataText, id) => {
+        if (stream !== this.stream) return;
+        if (id) this.lastEventId = id;
+        if (name === null) onUntyped(dataText);
+        else named[name]?.(dataText);
+      },
+      onError: (err, fatal) => {
+        console.warn("[agent-dial]", "SSE error", err);
+        if (!fatal || stream !== this.stream) return;
+        // the stream is gone for good: reconnect on the same backoff as dormancy
+        const wait = this.backoffMs;
+        this.backoffMs = Math.min(this.backoffMs * 2, 15_000);
+        this.internalReconnect(wait, onRoster);
+      },
+    });
+    this.stream = stream;
+
     // --- Soft heartbeat & dormancy watchdog ---
     if (this.tickTimer !== null) {
       window.clearInterval(this.tickTimer);
@@ -294,6 +495,27 @@ export class PexipSSE {
     }, 5_000);
   }
 
+  /**
+   * EventSource can't set headers, so the Pexip token rides on the query string.
+   * The fetch transport sends it as a header and resumes from the last event id;
+   * it is also used whenever there is a Genesys bearer (proxy), which must never
+   * be put in a URL (logs, history, Referer).
+   */
+  private openStream(alias: string, token: string, events: string[], cb: SSEStreamCallbacks): SSEStream {
+    const bearer = this.bearerToken?.();
+    const base = `${this.nodeUrl}/api/client/v2/conferences/${encodeURIComponent(alias)}/events`;
+
+    if (this.transport === "fetch" || bearer) {
+      const headers: Record<string, string> = { token };
+      if (bearer) headers.Authorization = `Bearer ${bearer}`;
+      if (this.lastEventId) console.info("[agent-dial]", `SSE resuming after event ${this.lastEventId}`);
+      return openFetchStream({ url: base, events, headers, lastEventId: this.lastEventId }, cb);
+    }
+
+    const url = `${base}?token=${encodeURIComponent(token)}`;
+    return openEventSourceStream({ url, events }, cb);
+  }
+
   private internalReconnect(delayMs: number, onRoster: (r: RosterSnapshot) => void) {
     const alias = this.alias;
     const token = this.token;
@@ -308,11 +530,11 @@ export class PexipSSE {
     }
 
     try {
-      this.es?.close();
+      this.stream?.close();
     } catch (e) {
       console.debug("[agent-dial]", "SSE close (ignored)", e);
     }
-    this.es = undefined;
+    this.stream = undefined;
 
     const base = Math.min(Math.max(delayMs, 500), 10_000);
     const jitter = Math.floor(Math.random() * Math.min(1_000, Math.max(250, base / 2)));
@@ -345,27 +567,33 @@ export class PexipSSE {
       window.clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
-    if (this.es) {
+    if (this.stream) {
       try {
-        this.es.close();
+        this.stream.close();
       } catch (e) {
         console.debug("[agent-dial]", "SSE close (ignored)", e);
       }
-      this.es = undefined;
+      this.stream = undefined;
     }
     console.info("[agent-dial]", "SSE closed");
   }
 
+  private publishDelta(d: RosterDelta) {
+    switch (d.type) {
+      case "joined":
+        this.handlers.onParticipantJoined?.({ participant: d.participant, at: d.at });
+        return;
+      case "left":
+        this.handlers.onParticipantLeft?.({ participant: d.participant, at: d.at, reason: d.reason });
+        return;
+      case "changed":
+        this.handlers.onParticipantChanged?.({ participant: d.participant, changes: d.changes, at: d.at });
+        return;
+    }
+  }
+
   private toSnapshot(): RosterSnapshot {
     const participants = Array.from(this.roster.values());
-    const counts = {
-      webrtcVideo: participants.filter(
-        (p) => p.kind === "webrtc" && p.isConnected && p.isVideo
-      ).length,
-      sipVideo: participants.filter(
-        (p) => p.kind === "sip" && p.isConnected && p.isVideo
-      ).length,
-    };
-    return { participants, counts };
+    return { participants, counts: rosterCounts(participants), conference: this.conference };
   }
 }
@@ -0,0 +1,113 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/sseTransport.ts
+// Transports behind PexipSSE:
+// - "eventsource": native EventSource; auth must ride on the query string
+// - "fetch": streamed fetch(); sends the token (and Genesys bearer) as headers
+//   and resumes with Last-Event-ID after a reconnect
+// Both report raw events; parsing and roster logic stay in sse.ts.
+// ───────────────────────────────────────────────────────────────────────────────
+
+export type SSETransportKind = "eventsource" | "fetch";
+
+export type SSEStreamCallbacks = {
+  onOpen: () => void;
+  /** `name` is null for unnamed (`message`) events; `id` is the event's `id:` field */
+  onEvent: (name: string | null, data: string, id: string | null) => void;
+  /** transport failure; `fatal` = the stream is gone and will not recover by itself */
+  onError: (err: unknown, fatal: boolean) => void;
+};
+
+export type SSEStream = { close: () => void };
+
+export type SSEStreamInit = {
+  url: string;
+  /** named events to subscribe to (EventSource only delivers named events it listens for) */
+  events: string[];
+  headers?: Record<string, string>;
+  lastEventId?: string | null;
+};
+
+export function openEventSourceStream(init: SSEStreamInit, cb: SSEStreamCallbacks): SSEStream {
+  const es = new EventSource(init.url);
+  es.onopen = () => cb.onOpen();
+  // EventSource retries on its own; only CLOSED means it gave up
+  es.onerror = (ev) => cb.onError(ev, es.readyState === EventSource.CLOSED);
+
+  const id = (evt: MessageEvent<string>) => evt.lastEventId || null;
+  for (const name of init.events) {
+    es.addEventListener(name, ((evt: MessageEvent<string>) =>
+      cb.onEvent(name, evt.data, id(evt))) as EventListener);
+  }
+  es.onmessage = (evt: MessageEvent<string>) => cb.onEvent(null, evt.data, id(evt));
+
+  return { close: () => es.close() };
+}
+
+/** Incremental text/event-stream parser (spec field rules; `retry` is ignored). */
+function createParser(onEvent: SSEStreamCallbacks["onEvent"]) {
+  let buffer = "";
+  let name: string | null = null;
+  let data: string[] = [];
+  let id: string | null = null;
+
+  const dispatch = () => {
+    if (data.length) onEvent(name && name !== "message" ? name : null, data.join("\n"), id);
+    name = null;
+    data = [];
+  };
+
+  const line = (l: string) => {
+    if (l === "") return dispatch();
+    if (l.startsWith(":")) return; // comment / keep-alive
+    const colon = l.indexOf(":");
+    const field = colon < 0 ? l : l.slice(0, colon);
+    let value = colon < 0 ? "" : l.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") name = value;
+    else if (field === "data") data.push(value);
+    else if (field === "id" && !value.includes("\0")) id = value;
+  };
+
+  // `end` flushes at end of stream; an unterminated last line is dropped (spec)
+  return (chunk: string, end = false) => {
+    buffer += chunk;
+    // a trailing CR may be the first half of a CRLF split across reads: hold it back
+    const cut = !end && buffer.endsWith("\r") ? buffer.length - 1 : buffer.length;
+    const lines = buffer.slice(0, cut).split(/\r\n|\r|\n/);
+    buffer = (lines.pop() ?? "") + buffer.slice(cut);
+    lines.forEach(line);
+  };
+}
+
+export function openFetchStream(init: SSEStreamInit, cb: SSEStreamCallbacks): SSEStream {
+  const abort = new AbortController();
+  const headers: Record<string, string> = { Accept: "text/event-stream", ...init.headers };
+  if (init.lastEventId) headers["Last-Event-ID"] = init.lastEventId;
+
+  void (async () => {
+    try {
+      const res = await fetch(init.url, { headers, signal: abort.signal, cache: "no-store" });
+      if (!res.ok || !res.body) {
+        cb.onError(new Error(`SSE fetch failed: ${res.status} ${res.statusText}`), true);
+        return;
+      }
+      cb.onOpen();
+
+      const feed = createParser(cb.onEvent);
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+          feed("", true);
+          break;
+        }
+        feed(value);
+      }
+      if (!abort.signal.aborted) cb.onError(new Error("SSE stream ended"), true);
+    } catch (e) {
+      if (!abort.signal.aborted) cb.onError(e, true);
+    }
+  })();
+
+  return { close: () => abort.abort() };
+}
@@ -0,0 +1,285 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/tabCoordinator.ts
+// Multi-tab coordination over BroadcastChannel so one agent cannot run two
+// sessions from two Genesys tabs:
+// - a tab must win a claim before it starts (or resumes) a session
+// - the owning tab broadcasts its phase/roster; other tabs show a read-only mirror
+// - when the owner closes (release with hand-off, or its heartbeat stops) the
+//   lowest-id live tab takes the session over from the last broadcast snapshot;
+//   tabs announce when they are hidden, and a hidden owner's heartbeat gets minutes
+//   of slack since browsers throttle (or freeze) background timers
+// - every ownership carries an epoch (claim time): an owner that was only frozen
+//   and wakes up to a newer owner's state yields instead of driving the session too
+// Same-origin only; where BroadcastChannel is missing every tab acts alone.
+// ───────────────────────────────────────────────────────────────────────────────
+
+import type { PersistedSession } from "./sessionStore";
+import type { OrchestratorPhase, RosterSnapshot } from "./types";
+
+/** What the owning tab shows, as seen from a mirror tab. */
+export type MirrorState = {
+  ownerId: string;
+  alias: string | null;
+  phase: OrchestratorPhase;
+  roster: RosterSnapshot | null;
+  at: number;
+};
+
+export type OwnerState = {
+  alias: string | null;
+  phase: OrchestratorPhase;
+  roster: RosterSnapshot | null;
+  /** re-attach snapshot handed to the next owner (null once the session is over) */
+  session: PersistedSession | null;
+};
+
+type TabMessage =
+  | { type: "presence"; tabId: string; hidden: boolean }
+  | { type: "claim"; tabId: string; at: number }
+  | ({ type: "state"; tabId: string; epoch: number; hidden: boolean } & OwnerState)
+  | { type: "release"; tabId: string; session: PersistedSession | null };
+
+const CHANNEL_NAME = "agent-dial";
+const HEARTBEAT_MS = 2_000;
+/** an owner (or peer) silent for this long is considered gone */
+const STALE_MS = 6_500;
+/** the same for a hidden tab: its timers may run only once a minute, or not at all */
+const HIDDEN_STALE_MS = 5 * 60_000;
+/** how long a claim waits for competing claims from other tabs */
+const CLAIM_WINDOW_MS = 300;
+
+/** Ownership order: the later epoch wins; equal epochs go to the lower tab id. */
+function isNewer(epoch: number, tabId: string, thanEpoch: number, thanTabId: string): boolean {
+  return epoch > thanEpoch || (epoch === thanEpoch && tabId < thanTabId);
+}
+
+function staleAfterMs(hidden: boolean): number {
+  return hidden ? HIDDEN_STALE_MS : STALE_MS;
+}
+
+function isPageHidden(): boolean {
+  return typeof document !== "undefined" && document.visibilityState === "hidden";
+}
+
+function isTabMessage(v: unknown): v is TabMessage {
+  if (typeof v !== "object" || v === null) return false;
+  const m = v as Record<string, unknown>;
+  return typeof m.tabId === "string" && typeof m.type === "string";
+}
+
+export class TabCoordinator {
+  readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+  private channel: BroadcastChannel | null = null;
+  private heartbeat: number | null = null;
+  private peers = new Map<string, { seen: number; hidden: boolean }>();
+  private owning = false;
+  /** when this tab's ownership began (fences out owners that went silent and came back) */
+  private epoch = 0;
+  private lastOwned: OwnerState | null = null;
+  private owner: { id: string; epoch: number; seen: number; hidden: boolean; state: OwnerState } | null = null;
+  private claiming: { at: number; lost: boolean } | null = null;
+  private lastTick = 0;
+
+  private mirrorListeners = new Set<(m: MirrorState | null) => void>();
+  private takeoverListeners = new Set<(s: PersistedSession) => void>();
+  private yieldListeners = new Set<(ownerId: string) => void>();
+
+  constructor(private channelName = CHANNEL_NAME) {}
+
+  /** Join the channel; no-op (single-tab behaviour) without BroadcastChannel. */
+  start() {
+    if (this.channel || typeof BroadcastChannel === "undefined") return;
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (ev: MessageEvent<unknown>) => {
+      if (isTabMessage(ev.data) && ev.data.tabId !== this.tabId) this.onMessage(ev.data);
+    };
+    this.announce();
+    this.lastTick = Date.now();
+    this.heartbeat = window.setInterval(() => this.tick(), HEARTBEAT_MS);
+    if (typeof document !== "undefined") document.addEventListener("visibilitychange", this.onVisibilityChange);
+  }
+
+  close() {
+    if (this.heartbeat !== null) window.clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    if (typeof document !== "undefined") document.removeEventListener("visibilitychange", this.onVisibilityChange);
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  isOwner(): boolean {
+    return this.owning;
+  }
+
+  /** The live owner's state when another tab owns a session, else null. */
+  mirror(): MirrorState | null {
+    const o = this.owner;
+    if (!o || Date.now() - o.seen > staleAfterMs(o.hidden)) return null;
+    return { ownerId: o.id, alias: o.state.alias, phase: o.state.phase, roster: o.state.roster, at: o.seen };
+  }
+
+  onMirror(fn: (m: MirrorState | null) => void) {
+    this.mirrorListeners.add(fn);
+    return () => this.mirrorListeners.delete(fn);
+  }
+
+  /** Fired on the tab elected to take over a session whose owner went away. */
+  onTakeover(fn: (s: PersistedSession) => void) {
+    this.takeoverListeners.add(fn);
+    return () => this.takeoverListeners.delete(fn);
+  }
+
+  /**
+   * Fired on an owner that finds a newer owner (it was frozen or throttled long
+   * enough to be taken over): stop driving the session locally, leave the conference.
+   */
+  onYield(fn: (ownerId: string) => void) {
+    this.yieldListeners.add(fn);
+    return () => this.yieldListeners.delete(fn);
+  }
+
+  /**
+   * Ask to own a session. Fails while another tab owns one; when two tabs claim
+   * at once the earlier claim (then the lower tab id) wins.
+   */
+  async claim(): Promise<boolean> {
+    if (this.owning) return true;
+    if (!this.channel) {
+      this.owning = true;
+      this.epoch = Date.now();
+      return true;
+    }
+    if (this.mirror()) return false;
+
+    const mine = { at: Date.now(), lost: false };
+    this.claiming = mine;
+    this.post({ type: "claim", tabId: this.tabId, at: mine.at });
+    await new Promise((r) => window.setTimeout(r, CLAIM_WINDOW_MS));
+    this.claiming = null;
+    if (mine.lost || this.mirror()) return false;
+
+    this.owning = true;
+    this.epoch = Date.now();
+    this.setOwner(null);
+    return true;
+  }
+
+  /** Owner: broadcast the current phase/roster (and re-attach snapshot). */
+  publish(state: OwnerState) {
+    if (!this.owning) return;
+    this.lastOwned = state;
+    this.post({ type: "state", tabId: this.tabId, epoch: this.epoch, hidden: isPageHidden(), ...state });
+  }
+
+  /**
+   * Owner: give the session up. Pass the snapshot when the session keeps
+   * running (tab closing) so another tab takes it over; null when it ended.
+   * Returns true when a live tab is there to take the snapshot over.
+   */
+  release(session: PersistedSession | null): boolean {
+    if (!this.owning) return false;
+    this.owning = false;
+    this.lastOwned = null;
+    this.post({ type: "release", tabId: this.tabId, session });
+    return !!session && this.peers.size > 0;
+  }
+
+  // tell the other tabs right away, before this tab's timers get throttled
+  private onVisibilityChange = () => this.announce();
+
+  private announce() {
+    this.post({ type: "presence", tabId: this.tabId, hidden: isPageHidden() });
+    if (this.owning && this.lastOwned) this.publish(this.lastOwned);
+  }
+
+  private post(msg: TabMessage) {
+    try {
+      this.channel?.postMessage(msg);
+    } catch (err) {
+      console.warn("[agent-dial]", "tab broadcast failed (ignored)", err);
+    }
+  }
+
+  private onMessage(msg: TabMessage) {
+    const now = Date.now();
+    const hidden =
+      msg.type === "presence" || msg.type === "state" ? msg.hidden : (this.peers.get(msg.tabId)?.hidden ?? false);
+    this.peers.set(msg.tabId, { seen: now, hidden });
+
+    switch (msg.type) {
+      case "presence":
+        // let a newly opened tab see the session right away
+        if (this.owning && this.lastOwned) this.publish(this.lastOwned);
+        return;
+      case "claim":
+        if (this.owning) {
+          if (this.lastOwned) this.publish(this.lastOwned);
+          return;
+        }
+        if (this.claiming && (msg.at < this.claiming.at || (msg.at === this.claiming.at && msg.tabId < this.tabId))) {
+          this.claiming.lost = true;
+        }
+        return;
+      case "state": {
+        const state: OwnerState = { alias: msg.alias, phase: msg.phase, roster: msg.roster, session: msg.session };
+        if (this.owning) {
+          // the older owner yields; the newer one answers right away so it does so quickly
+          if (!isNewer(msg.epoch, msg.tabId, this.epoch, this.tabId)) {
+            if (this.lastOwned) this.publish(this.lastOwned);
+            return;
+          }
+          console.warn("[agent-dial]", `tab ${msg.tabId} took the session over; yielding`);
+          this.owning = false;
+          this.lastOwned = null;
+          this.setOwner({ id: msg.tabId, epoch: msg.epoch, seen: now, hidden: msg.hidden, state });
+          this.yieldListeners.forEach((fn) => fn(msg.tabId));
+          return;
+        }
+        // a stale owner's heartbeat must not replace the one that took over
+        const o = this.owner;
+        if (o && o.id !== msg.tabId && !isNewer(msg.epoch, msg.tabId, o.epoch, o.id)) return;
+        this.setOwner({ id: msg.tabId, epoch: msg.epoch, seen: now, hidden: msg.hidden, state });
+        return;
+      }
+      case "release":
+        this.peers.delete(msg.tabId);
+        if (this.owner?.id !== msg.tabId) return;
+        this.setOwner(null);
+        if (msg.session) this.elect(msg.session);
+        return;
+    }
+  }
+
+  private tick() {
+    const now = Date.now();
+    // this tab was frozen itself: everyone looks silent, wait for fresh heartbeats first
+    const woke = now - this.lastTick > staleAfterMs(isPageHidden());
+    this.lastTick = now;
+    this.announce();
+
+    this.peers.forEach((p, id) => {
+      if (now - p.seen > staleAfterMs(p.hidden)) this.peers.delete(id);
+    });
+    const o = this.owner;
+    if (o && !woke && now - o.seen > staleAfterMs(o.hidden)) {
+      console.warn("[agent-dial]", `owning tab ${o.id} went silent`);
+      this.setOwner(null);
+      if (o.state.session) this.elect(o.state.session);
+    }
+  }
+
+  /** The lowest-id live tab takes the orphaned session over. */
+  private elect(session: PersistedSession) {
+    const candidates = [this.tabId, ...this.peers.keys()].sort();
+    if (candidates[0] !== this.tabId) return;
+    console.info("[agent-dial]", `taking over session ${session.alias} from a closed tab`);
+    this.takeoverListeners.forEach((fn) => fn(session));
+  }
+
+  private setOwner(owner: TabCoordinator["owner"]) {
+    this.owner = owner;
+    const m = this.mirror();
+    this.mirrorListeners.forEach((fn) => fn(m));
+  }
+}
@@ -0,0 +1,172 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/tokenManager.ts
+// Expiry-driven Pexip token lifecycle shared by PexipClient, PexipSSE and the
+// Orchestrator:
+// - schedules refresh_token at half of the token's `expires` lifetime
+// - retries failed refreshes with capped exponential backoff
+// - on a rejected token (403) re-requests a brand new token
+// - publishes every rotation so the SSE stream and callers never hold a stale token
+// ───────────────────────────────────────────────────────────────────────────────
+
+import { isPexipError } from "./pexipErrors";
+
+export type IssuedToken = { token: string; expires?: number };
+
+export type TokenRotation = {
+  alias: string;
+  token: string;
+  expires?: number;
+  /** "refresh" keeps the same participant; "reissue" is a new request_token (new Leg 0 participant) */
+  reason: "refresh" | "reissue";
+};
+
+export type TokenSource = {
+  refresh: (token: string, alias: string) => Promise<IssuedToken>;
+  reissue: (alias: string) => Promise<IssuedToken>;
+};
+
+type RotationListener = (r: TokenRotation) => void;
+type LostListener = (err: unknown) => void;
+
+const DEFAULT_LIFETIME_S = 120;
+const MIN_REFRESH_MS = 5_000;
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 30_000;
+
+export class TokenManager {
+  private alias: string | null = null;
+  private token: string | null = null;
+  private expires = DEFAULT_LIFETIME_S;
+  private timer: number | null = null;
+  private inFlight: Promise<void> | null = null;
+  private failures = 0;
+
+  private rotationListeners = new Set<RotationListener>();
+  private lostListeners = new Set<LostListener>();
+
+  constructor(private source: TokenSource) {}
+
+  current(): string | undefined {
+    return this.token ?? undefined;
+  }
+
+  onRotate(fn: RotationListener) {
+    this.rotationListeners.add(fn);
+    return () => this.rotationListeners.delete(fn);
+  }
+
+  /** Fired when neither refresh nor re-request could produce a valid token. */
+  onLost(fn: LostListener) {
+    this.lostListeners.add(fn);
+    return () => this.lostListeners.delete(fn);
+  }
+
+  /** Begin managing a freshly issued token. */
+  start(alias: string, issued: IssuedToken) {
+    this.stop();
+    this.alias = alias;
+    this.token = issued.token;
+    this.expires = issued.expires ?? DEFAULT_LIFETIME_S;
+    this.failures = 0;
+    this.schedule(this.refreshDelayMs());
+  }
+
+  /**
+   * Refresh immediately instead of waiting for the timer (throttled while the page was frozen or offline).
+   * Joins a refresh already in flight rather than sending a second one with the same token.
+   */
+  async refreshNow(): Promise<void> {
+    if (!this.alias || !this.token) return;
+    if (this.inFlight) return this.inFlight;
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.tick();
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.alias = null;
+    this.token = null;
+    this.inFlight = null;
+  }
+
+  private refreshDelayMs(): number {
+    return Math.max(MIN_REFRESH_MS, (this.expires * 1000) / 2);
+  }
+
+  private schedule(ms: number) {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, ms);
+  }
+
+  private publish(alias: string, issued: IssuedToken, reason: TokenRotation["reason"]) {
+    const rotated = issued.token !== this.token;
+    this.token = issued.token;
+    this.expires = issued.expires ?? this.expires;
+    this.failures = 0;
+    if (rotated || reason === "reissue") {
+      const evt: TokenRotation = { alias, token: issued.token, expires: issued.expires, reason };
+      this.rotationListeners.forEach((fn) => fn(evt));
+    }
+  }
+
+  /** One refresh (or re-request) at a time; concurrent callers share it. */
+  private tick(): Promise<void> {
+    if (this.inFlight) return this.inFlight;
+    const run = this.refresh().finally(() => {
+      if (this.inFlight === run) this.inFlight = null;
+    });
+    this.inFlight = run;
+    return run;
+  }
+
+  private async refresh() {
+    const alias = this.alias;
+    const token = this.token;
+    if (!alias || !token) return;
+
+    try {
+      const issued = await this.source.refresh(token, alias);
+      if (this.alias !== alias) return; // stopped/restarted meanwhile
+      console.debug("[agent-dial]", `token refresh ok${issued.token !== token ? " (rotated)" : ""}`);
+      this.publish(alias, issued, "refresh");
+      this.schedule(this.refreshDelayMs());
+      return;
+    } catch (err) {
+      if (this.alias !== alias) return;
+      if (isPexipError(err) && err.kind === "token_expired") {
+        await this.reissue(alias, err);
+        return;
+      }
+      this.failures++;
+      const wait = Math.min(BACKOFF_BASE_MS * 2 ** (this.failures - 1), BACKOFF_MAX_MS);
+      console.warn("[agent-dial]", `token refresh failed (#${this.failures}); retry in ${wait}ms`, err);
+      this.schedule(wait);
+    }
+  }
+
+  private async reissue(alias: string, cause: unknown) {
+    // stopped (session ended) while the refresh was in flight: never join a new participant
+    if (this.alias !== alias) return;
+    console.warn("[agent-dial]", "token rejected on refresh -> re-requesting token", cause);
+    try {
+      const issued = await this.source.reissue(alias);
+      if (this.alias !== alias) return;
+      this.publish(alias, issued, "reissue");
+      this.schedule(this.refreshDelayMs());
+    } catch (err) {
+      if (this.alias !== alias) return;
+      console.error("[agent-dial]", "token re-request failed; session token lost", err);
+      this.stop();
+      this.lostListeners.forEach((fn) => fn(err));
+    }
+  }
+}
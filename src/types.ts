@@ -2,6 +2,11 @@
 // File: src/types.ts
 // ───────────────────────────────────────────────────────────────────────────────
 
+import type { RetryPolicies } from "./pexipRequest";
+import type { Leg3ResolverOptions, Leg3RingGroup } from "./leg3Resolver";
+import type { SSETransportKind } from "./sseTransport";
+import type { LifecycleDecision, LifecyclePolicy, LifecycleRule } from "./lifecyclePolicy";
+
 export type OrchestratorPhase =
   | "idle"
   | "getting_token"
@@ -9,15 +14,202 @@ export type OrchestratorPhase =
   | "waiting_agent_answered"
   | "dialing_leg3"
   | "active"
+  | "reconnecting"
   | "ended"
   | "error";
 
+/**
+ * Logical legs of a session:
+ * - leg0: API user that holds the client token
+ * - leg1: SIP audio to the contact center
+ * - leg2: agent WebRTC
+ * - leg3: customer VTC
+ * - recording: optional RTMP recorder/streamer dialed once active
+ * - extra: ad-hoc participants added during the session (interpreter, specialist)
+ */
+export type CallLeg = "leg0" | "leg1" | "leg2" | "leg3" | "recording" | "extra";
+
+/** Protocol for a dial-out; "auto" lets the node's routing rules decide. */
+export type DialProtocol = "auto" | "sip" | "h323" | "mssip" | "rtmp" | "webrtc";
+
+/** Ad-hoc participant dialed into an active session, tracked by the UUID /dial returned. */
+export type ExtraLeg = {
+  id: string;
+  destination: string;
+  label: string;
+  role: "HOST" | "GUEST";
+  callType: "audio" | "video";
+  addedAt: number;
+  /** true once the participant has been seen connected */
+  connected: boolean;
+};
+
+/** Sub-state of one session leg, tracked alongside the phase. */
+export type LegState =
+  | "idle"
+  | "dialing"       // request sent (token request / dial)
+  | "ringing"       // participant exists, not connected yet
+  | "connected"
+  | "failed"        // dial/token request failed
+  | "disconnected"  // was connected, then left
+  | "retired";      // Leg 0 released on purpose
+
+export type LegStatus = { state: LegState; since: number; detail?: string };
+
+/** One entry of the session timeline: a phase change or a leg sub-state change. */
+export type TimelineEntry = {
+  at: number;
+  scope: "phase" | CallLeg;
+  from: string;
+  to: string;
+  reason?: string;
+};
+
+/** Pending wait for an agent to answer Leg 1 (drives the UI countdown). */
+export type AgentAnswerWait = {
+  /** contact center alias Leg 1 was dialed to */
+  alias: string;
+  /** 1 = first dial, 2 = overflow redial */
+  attempt: number;
+  startedAt: number;
+  deadline: number;
+};
+
+/** Leg 3 redial budget, observable while retries are scheduled (see LifecyclePolicy.leg3Retry). */
+export type Leg3RetryState = {
+  /** "initial" = the first dial failed to route; "reconnect" = Leg 3 dropped mid-call */
+  mode: "initial" | "reconnect";
+  /** redials used so far (the scheduled one included) */
+  attempt: number;
+  maxAttempts: number;
+  /** when the scheduled redial fires; null while it is in flight or once exhausted */
+  nextAttemptAt: number | null;
+  lastError?: string;
+  exhausted: boolean;
+};
+
+/** One Leg 3 dial placed during a session (every candidate of every redial). */
+export type SessionLeg3Attempt = {
+  destination: string;
+  protocol: DialProtocol;
+  at: number;
+  /** why the node did not create (or later dropped) the call */
+  error?: string;
+};
+
+/**
+ * Per-session metrics, emitted once as `summary` when a session ends (see
+ * sessionMetrics.ts). Durations are ms; null when the step never happened in
+ * this widget (e.g. steps before a re-attach after reload). They cover the
+ * widget's part of the call only: with `handedOff` the conference kept running
+ * after `endedAt`, so `activeMs`/`totalMs` are not the call's full length.
+ */
+export type SessionSummary = {
+  alias: string;
+  startedAt: number;
+  endedAt: number;
+  outcome: "ended" | "error";
+  /** terminating lifecycle rule, null when the agent ended it or it failed */
+  endRule: LifecycleRule | null;
+  endReason: string;
+  /** the session was re-attached after a reload; earlier steps are not measured */
+  resumed: boolean;
+  /** the widget let go while the call went on (Leg 0 hand-off, soft reset, taken over by another tab) */
+  handedOff: boolean;
+  /** request_token sent -> token issued */
+  timeToTokenMs: number | null;
+  /** Leg 1 participant created -> connected (last dial, i.e. the overflow if any) */
+  leg1RingMs: number | null;
+  /** Leg 1 dials placed (2 after an overflow redial) */
+  leg1Dials: number;
+  /** first Leg 1 dial -> agent up (Leg 1 + Leg 2 connected) */
+  agentAnswerMs: number | null;
+  leg3Attempts: SessionLeg3Attempt[];
+  /** destination that connected */
+  leg3Destination: string | null;
+  /** first Leg 3 dial -> Leg 3 connected */
+  leg3ConnectMs: number | null;
+  leg3Reconnects: number;
+  /** time spent in "active" while this widget watched (reconnect gaps excluded) */
+  activeMs: number;
+  /** start (or re-attach) -> the widget ended or let go */
+  totalMs: number;
+};
+
+/** Signalling protocol as reported by the node ("other" = unknown/absent). */
+export type ParticipantProtocol =
+  | "webrtc"
+  | "sip"
+  | "h323"
+  | "mssip"
+  | "rtmp"
+  | "teams"
+  | "api"
+  | "other";
+
+/** Roster participant (see participants.ts for the mapping from Pexip payloads). */
 export type Participant = {
   id: string;
+  /** coarse family used by the leg rules; see `protocol` for the detail */
   kind: "sip" | "webrtc" | "other";
+  protocol: ParticipantProtocol;
   displayName?: string;
+  role?: "chair" | "guest";
+  callDirection?: "in" | "out";
   isVideo: boolean;
   isConnected: boolean;
+  isAudioMuted: boolean;
+  isVideoMuted: boolean;
+  isPresenting: boolean;
+  /** when the call connected (ms epoch) */
+  connectedAt?: number;
+  /** remote URI/alias of the endpoint */
+  uri?: string;
+  /** conference alias the participant dialed in on / was dialed from */
+  localAlias?: string;
+  disconnectReason?: string;
+};
+
+/** Changed fields of a participant: previous and new value per field. */
+export type ParticipantFieldChanges = {
+  [K in keyof Participant]?: { from: Participant[K]; to: Participant[K] };
+};
+
+/**
+ * Roster delta events. `at` is when the change was observed (ms epoch);
+ * `leg` is filled in by the Orchestrator (null = unclassified).
+ */
+export type ParticipantJoined = { participant: Participant; at: number; leg?: CallLeg | null };
+export type ParticipantLeft = {
+  participant: Participant;
+  at: number;
+  /** disconnect reason from the node, when it sent one */
+  reason?: string;
+  leg?: CallLeg | null;
+};
+export type ParticipantChanged = {
+  participant: Participant;
+  changes: ParticipantFieldChanges;
+  at: number;
+  leg?: CallLeg | null;
+};
+
+export type RosterDelta =
+  | ({ type: "joined" } & ParticipantJoined)
+  | ({ type: "left" } & ParticipantLeft)
+  | ({ type: "changed" } & ParticipantChanged);
+
+/** Conference-level state from the `conference_update`, `layout` and `stage` SSE events. */
+export type ConferenceState = {
+  locked: boolean;
+  guestsMuted: boolean;
+  presentationAllowed: boolean;
+  /** current layout view, e.g. "1:7" (null until the first `layout` event) */
+  layout: string | null;
+  /** participant UUID first on stage (current active speaker) */
+  activeSpeakerId: string | null;
+  /** participant UUIDs in stage order */
+  stage: string[];
 };
 
 export type RosterSnapshot = {
@@ -26,11 +218,71 @@ export type RosterSnapshot = {
     webrtcVideo: number;
     sipVideo: number;
   };
+  /** latest conference state (absent on REST snapshots taken before any SSE event) */
+  conference?: ConferenceState;
+};
+
+/** In-conference text message (Pexip `message` / `message_received`). */
+export type ChatMessage = {
+  id: string;
+  direction: "in" | "out";
+  /** sender display name ("origin" in Pexip payloads) */
+  origin: string;
+  /** sender participant UUID, when known */
+  participantId?: string;
+  text: string;
+  at: number;
+};
+
+/** A Conferencing Node in the failover pool (lower priority = preferred). */
+export type PexipNode = {
+  url: string;
+  priority?: number;
 };
 
 export type PexipConfig = {
+  /** Primary node (tried first) */
   nodeUrl: string;
+  /** Additional failover nodes; only consulted before the token is issued */
+  nodes?: PexipNode[];
+  /** Health probe timeout per node (default 2500 ms) */
+  healthProbeTimeoutMs?: number;
   extraHeaders?: Record<string, string>;
+  /**
+   * Bearer token for a Pexip proxy in front of the node (server/pexipProxy.ts).
+   * Sent as "Authorization: Bearer" on REST calls and on SSE, which then always
+   * uses the fetch transport (never in a URL).
+   */
+  bearerToken?: () => string | undefined;
+  /** SSE transport (default "eventsource"); "fetch" keeps tokens out of URLs and resumes by Last-Event-ID */
+  sseTransport?: SSETransportKind;
+  /** Per-call-type retry overrides (merged over DEFAULT_RETRY_POLICIES) */
+  retry?: RetryPolicies;
+};
+
+/** One step of a DTMF sequence: wait `delayMs`, then send `digits`. */
+export type DtmfStep = {
+  digits: string;
+  delayMs?: number;
+};
+
+/** Pexip layout identifiers accepted by transform_layout. */
+export type PexipLayout = "1:0" | "1:7" | "1:21" | "2:21" | "1:33" | "4:0" | "9:0" | "16:0" | "25:0" | "ac";
+
+/** Conference layout transform (camelCase; mapped to transform_layout JSON keys). */
+export type LayoutTransform = {
+  layout?: PexipLayout;
+  hostLayout?: PexipLayout;
+  guestLayout?: PexipLayout;
+  enableOverlayText?: boolean;
+  enableActiveSpeakerIndication?: boolean;
+};
+
+/** Named layout preset from MasterVariables.layouts. */
+export type LayoutPreset = {
+  id: string;
+  label: string;
+  transform: LayoutTransform;
 };
 
 export type StartParams = {
@@ -46,14 +298,44 @@ export type StartParams = {
   /** LEG 1: destination (contact center SIP URI) */
   contactCenterAlias: string;
 
+  /** LEG 1: dial protocol (default "auto") */
+  leg1Protocol?: DialProtocol;
+
+  /** LEG 1: DTMF played automatically once the SIP leg connects (IVR navigation) */
+  leg1Dtmf?: DtmfStep[];
+
+  /** LEG 1: how long to wait for an agent (Leg 1 + Leg 2 up) before giving up; 0/absent = forever */
+  agentAnswerTimeoutMs?: number;
+
+  /** LEG 1: alias redialed once when the answer timeout expires, instead of ending the session */
+  overflowContactCenterAlias?: string;
+
   /** LEG 3: destination (external VTC alias/VMR/existing endpoint). */
   secondDialAlias: string;
 
+  /** LEG 3: dial protocol (default "auto"), e.g. "h323" for legacy room systems */
+  leg3Protocol?: DialProtocol;
+
+  /** Optional RTMP recorder/streamer URL, dialed as its own leg once the session is active */
+  recordingUrl?: string;
+
   /** Optional room/VMR PIN for request_token (sent as HTTP header "pin") */
   pin?: string;
 
   /** Optional per-call customer SIP domain to help form routable candidates for Leg 3 */
   customerSipDomain?: string;
+
+  /** LEG 3: resolver order and domains used to build dial candidates (see leg3Resolver.ts) */
+  leg3Resolver?: Leg3ResolverOptions;
+
+  /** LEG 3: several destinations rung in sequence or at once (default: secondDialAlias alone) */
+  leg3RingGroup?: Leg3RingGroup;
+
+  /** Optional layout applied automatically once the session becomes active */
+  layoutPreset?: LayoutPreset;
+
+  /** Lifecycle rules for this session (default: DEFAULT_LIFECYCLE_POLICY) */
+  lifecyclePolicy?: LifecyclePolicy;
 };
 
 export interface OrchestratorEvents {
@@ -61,5 +343,15 @@ export interface OrchestratorEvents {
   roster: (roster: RosterSnapshot) => void;
   active: (payload: { active: boolean; roster: RosterSnapshot }) => void;
   error: (err: Error) => void;
+  message: (msg: ChatMessage) => void;
+  conference: (state: ConferenceState) => void;
+  participantJoined: (e: ParticipantJoined) => void;
+  participantLeft: (e: ParticipantLeft) => void;
+  participantChanged: (e: ParticipantChanged) => void;
+  lifecycle: (decision: LifecycleDecision) => void;
+  timeline: (entry: TimelineEntry) => void;
+  agentWait: (wait: AgentAnswerWait | null) => void;
+  leg3Retry: (state: Leg3RetryState | null) => void;
+  summary: (summary: SessionSummary) => void;
 }
 export type Listener<K extends keyof OrchestratorEvents> = OrchestratorEvents[K];
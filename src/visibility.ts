@@ -1,40 +1,122 @@
+// ───────────────────────────────────────────────────────────────────────────────
+// File: src/visibility.ts
+// Page visibility / lifecycle / network handling for a running session:
+// - hidden -> visible, bfcache restore and Chrome's freeze/resume reconcile the
+//   roster (and reconnect SSE when the page was away long enough to miss events)
+// - offline -> online forces a token check and an SSE reconnect
+// - beforeunload warns while a session is live
+// Every resume action is logged with how long the page was hidden.
+// ───────────────────────────────────────────────────────────────────────────────
+
 import Orchestrator from "./orchestrator";
 
-export function installVisibilityHandlers(orchestrator: Orchestrator) {
+/** Hidden for less than this: a quick tab switch, only the Leg 3 guard runs. */
+const QUICK_SWITCH_MS = 1000;
+/** Hidden (or frozen) for longer than this: the SSE stream is presumed stale. */
+const STALE_STREAM_MS = 30_000;
+
+type ResumeCause = "visible" | "pageshow" | "resume" | "online" | "discarded";
+
+/** Install the handlers; returns an uninstall fn (call it when the orchestrator goes away). */
+export function installVisibilityHandlers(orchestrator: Orchestrator): () => void {
   let lastHiddenAt: number | null = null;
+  let offlineSince: number | null = null;
 
-  async function onVisible() {
-    const now = Date.now();
-    const hiddenMs = lastHiddenAt ? now - lastHiddenAt : 0;
+  function markHidden() {
+    if (lastHiddenAt === null) lastHiddenAt = Date.now();
+  }
+
+  function takeHiddenMs(): number {
+    const hiddenMs = lastHiddenAt ? Date.now() - lastHiddenAt : 0;
     lastHiddenAt = null;
+    return hiddenMs;
+  }
+
+  async function onResume(cause: ResumeCause) {
+    const hiddenMs = takeHiddenMs();
+    if (!orchestrator.isLive()) return;
 
-    if (hiddenMs > 1000) {
-      try {
+    try {
+      if (cause === "resume" || cause === "discarded" || hiddenMs > STALE_STREAM_MS) {
+        console.info("[agent-dial]", `${cause} after ${hiddenMs}ms hidden: reconnect`);
+        await orchestrator.reconnectEvents(`page ${cause}`);
+      } else if (hiddenMs > QUICK_SWITCH_MS || cause === "pageshow") {
+        console.info("[agent-dial]", `${cause} after ${hiddenMs}ms hidden: refresh roster`);
         await orchestrator.refreshFromServer();
-      } catch (e) {
-        console.warn("[agent-dial] resume refresh failed", e);
-      }
-    } else {
-      try {
+      } else {
+        console.debug("[agent-dial]", `${cause} after ${hiddenMs}ms hidden: Leg 3 guard`);
         // Leg 3 (VMR -> external VTC) guard on quick tab switches
         orchestrator.ensureLeg3IfAgentReady();
-      } catch {
-        /* ignore */
       }
+    } catch (e) {
+      console.warn("[agent-dial] resume reconcile failed", e);
     }
   }
 
-  document.addEventListener("visibilitychange", () => {
+  const onVisibilityChange = () => {
     if (document.visibilityState === "hidden") {
-      lastHiddenAt = Date.now();
+      markHidden();
     } else if (document.visibilityState === "visible") {
-      void onVisible();
+      void onResume("visible");
     }
-  });
+  };
+
+  // bfcache: pagehide(persisted) ... pageshow(persisted) means the page was restored, not reloaded
+  const onPageHide = () => markHidden();
+  const onPageShow = (e: PageTransitionEvent) => {
+    if (e.persisted) void onResume("pageshow");
+  };
+
+  // Chrome page lifecycle: a frozen page runs no timers and drops its stream
+  const onFreeze = () => {
+    markHidden();
+    console.info("[agent-dial]", "page frozen");
+  };
+  const onUnfreeze = () => void onResume("resume");
+
+  const onOffline = () => {
+    offlineSince = Date.now();
+    console.warn("[agent-dial]", "network offline");
+  };
+  const onOnline = () => {
+    const offlineMs = offlineSince ? Date.now() - offlineSince : 0;
+    offlineSince = null;
+    const hiddenMs = lastHiddenAt ? Date.now() - lastHiddenAt : 0;
+    console.info("[agent-dial]", `network online after ${offlineMs}ms offline (${hiddenMs}ms hidden)`);
+    if (orchestrator.isLive()) void orchestrator.reconnectEvents("network online");
+  };
+
+  const onBeforeUnload = (e: BeforeUnloadEvent) => {
+    if (!orchestrator.isLive()) return;
+    e.preventDefault();
+    // legacy browsers only show the prompt when returnValue is set
+    e.returnValue = "";
+  };
+
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  document.addEventListener("freeze", onFreeze);
+  document.addEventListener("resume", onUnfreeze);
+  window.addEventListener("pagehide", onPageHide);
+  window.addEventListener("pageshow", onPageShow);
+  window.addEventListener("offline", onOffline);
+  window.addEventListener("online", onOnline);
+  window.addEventListener("beforeunload", onBeforeUnload);
 
   // Optional: page lifecycle (Chrome) without ts-ignore/any
   const docWithDiscard = document as Document & { wasDiscarded?: boolean };
   if (docWithDiscard.wasDiscarded) {
-    void orchestrator.refreshFromServer();
+    console.info("[agent-dial]", "page was discarded while hidden");
+    void onResume("discarded");
   }
+
+  return () => {
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+    document.removeEventListener("freeze", onFreeze);
+    document.removeEventListener("resume", onUnfreeze);
+    window.removeEventListener("pagehide", onPageHide);
+    window.removeEventListener("pageshow", onPageShow);
+    window.removeEventListener("offline", onOffline);
+    window.removeEventListener("online", onOnline);
+    window.removeEventListener("beforeunload", onBeforeUnload);
+  };
 }
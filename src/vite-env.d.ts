@@ -3,9 +3,31 @@
 interface ImportMetaEnv {
   // Pexip Configuration
   readonly VITE_PEXIP_NODE_URL: string;
+  readonly VITE_PEXIP_FAILOVER_NODE_URLS: string;
+  readonly VITE_PEXIP_USE_PROXY: string;
+  readonly VITE_PEXIP_SSE_TRANSPORT: string;
   
   // Dial Plan Configuration
   readonly VITE_CONTACT_CENTER_ALIAS: string;
+  readonly VITE_CONTACT_CENTER_DTMF: string;
+  readonly VITE_CONTACT_CENTER_PROTOCOL: string;
+  readonly VITE_CONTACT_CENTER_OVERFLOW_ALIAS: string;
+  readonly VITE_AGENT_ANSWER_TIMEOUT_MS: string;
+
+  // Leg 3 destination resolver
+  readonly VITE_LEG3_FORMATS: string;
+  readonly VITE_LEG3_SIP_DOMAIN: string;
+  readonly VITE_LEG3_CVI_DOMAIN: string;
+  readonly VITE_LEG3_E164_DOMAIN: string;
+  readonly VITE_LEG3_RING_MODE: string;
+  readonly VITE_LEG3_HUNT_TIMEOUT_MS: string;
+
+  // Recording
+  readonly VITE_RECORDING_RTMP_URL: string;
+
+  // Session reporting
+  readonly VITE_SESSION_SUMMARY_URL: string;
+  readonly VITE_SESSION_SUMMARY_GENESYS_AUTH: string;
   
   // Genesys Cloud Configuration
   readonly VITE_GENESYS_REGION: string;
@@ -35,6 +57,12 @@ interface ImportMetaEnv {
   readonly VITE_SHOW_MANUAL_ALIAS: string;
   readonly VITE_SHOW_SESSION_ALIAS: string;
   readonly VITE_EXTERNAL_DEVICE_NAME: string;
+
+  // Conference layout
+  readonly VITE_LAYOUT_PRESET: string;
+
+  // Session lifecycle
+  readonly VITE_LIFECYCLE_PROFILE: string;
   
   // Application Configuration
   readonly VITE_BASE_PATH: string;